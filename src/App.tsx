@@ -7,6 +7,8 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import MyOrders from "./pages/MyOrders";
 import Admin from "./pages/Admin";
+import Settings from "./pages/Settings";
+import Clients from "./pages/Clients";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +24,9 @@ const App = () => (
           <Route path="/auth" element={<Auth />} />
           <Route path="/my-orders" element={<MyOrders />} />
           <Route path="/admin" element={<Admin />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/clients" element={<Clients />} />
+          <Route path="/clients/:clientId" element={<Clients />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,49 +1,217 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
+import { statusBadgeClass, statusLabel } from "@/lib/orders";
 import { Loader2, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
 
+// One row of the sync-sheet dry-run diff
+interface PreviewRow {
+  id: string | null;
+  source: string;
+  sheet_row_id: string | null;
+  client_name: string;
+  requirement_text: string;
+  price: number;
+  status: string;
+  changes?: string[];
+  held?: boolean;
+  protected?: boolean;
+}
+
+interface SyncPreview {
+  insert: PreviewRow[];
+  update: PreviewRow[];
+  archive: PreviewRow[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  client_name: "client",
+  requirement_text: "requirement",
+  price: "price",
+  due_date: "due date",
+  archived_at: "back from archive",
+};
+
+async function callSyncSheet(body: Record<string, unknown>) {
+  // Prefer direct fetch to the Functions endpoint to avoid invoke transport issues
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sync-sheet`;
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData?.session?.access_token;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY!,
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+  return json;
+}
+
+function PreviewSection({ title, rows, empty }: { title: string; rows: PreviewRow[]; empty: string }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">
+        {title} ({rows.length})
+      </h4>
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{empty}</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto space-y-1 text-sm">
+          {rows.map((r, i) => (
+            <li key={r.id ?? `${r.source}-${r.sheet_row_id}-${i}`} className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="truncate">
+                  <span className="font-medium">{r.client_name}</span>
+                  <span className="text-muted-foreground"> · {r.requirement_text}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {r.source} · ₹{Number(r.price).toLocaleString()}
+                  {r.changes && r.changes.length > 0 && ` · changes ${r.changes.map((c) => FIELD_LABELS[c] ?? c).join(", ")}`}
+                  {r.held && r.changes?.some((c) => c !== "archived_at") && " (held for admin review)"}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {r.status !== "available" && <Badge className={statusBadgeClass(r.status)}>{statusLabel(r.status)}</Badge>}
+                {r.protected && <Badge variant="outline">Kept</Badge>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export default function AdminRefreshButton() {
   const [loading, setLoading] = useState(false);
+  const [preview, setPreview] = useState<SyncPreview | null>(null);
+  const [unchangedRows, setUnchangedRows] = useState(0);
+  const [force, setForce] = useState(false);
+
+  const handlePreview = async () => {
+    try {
+      setLoading(true);
+      const json = await callSyncSheet({ purge: true, dryRun: true });
+      for (const src of json?.sources ?? []) {
+        if (src.error) toast.warning(`${src.name}: ${src.error}`);
+      }
+      setForce(false);
+      setUnchangedRows(json.skipped ?? 0);
+      setPreview(json.preview);
+    } catch (e) {
+      toast.error(`Refresh failed: ${(e as Error).message ?? e}`);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleRefresh = async () => {
+    setPreview(null);
     try {
       setLoading(true);
-      // Prefer direct fetch to the Functions endpoint to avoid invoke transport issues
-      const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sync-sheet`;
-      const { data: sessionData } = await supabase.auth.getSession();
-      const accessToken = sessionData?.session?.access_token;
-      const sheetExportUrl = `https://docs.google.com/spreadsheets/d/1U3FZz4TCV3axNXy9U97xa9Zq85pCpTPZFNIy4Nfg7us/gviz/tq?tqx=out:json&gid=2062186565&cacheBust=${Date.now()}`;
-      const res = await fetch(url, {
-        method: "POST",
-        headers: {
-          "content-type": "application/json",
-          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY!,
-          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
-        },
-        body: JSON.stringify({
-          sheetUrl: sheetExportUrl,
-          user: "celite",
-          purge: true,
-        }),
-      });
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+      const json = await callSyncSheet({ purge: true, force });
       toast.success(
-        `Refreshed${json?.inserted != null ? `, inserted ${json.inserted}` : ""}`
+        `Refreshed${json?.inserted != null ? `, inserted ${json.inserted}` : ""}` +
+          (json?.purged ? `, archived ${json.purged}` : "") +
+          (json?.skipped ? `, ${json.skipped} unchanged` : "")
       );
-    } catch (e: any) {
-      toast.error(`Refresh failed: ${e.message ?? e}`);
+      if (json?.conflicts) toast.info(`${json.conflicts} sheet change(s) to orders in progress are waiting for review`);
+      if (json?.kept) toast.info(`Kept ${json.kept} order(s) missing from the sheet that are in progress, done, or restored`);
+      for (const src of json?.sources ?? []) {
+        if (src.error) toast.warning(`${src.name}: ${src.error}`);
+        for (const warning of src.missingColumns ?? []) toast.warning(`${src.name}: ${warning}`);
+      }
+    } catch (e) {
+      toast.error(`Refresh failed: ${(e as Error).message ?? e}`);
     } finally {
       setLoading(false);
     }
   };
 
+  // Rows whose hash changed but whose brief fields did not (e.g. a new reference link)
+  const changed = preview?.update.filter((r) => (r.changes ?? []).length > 0) ?? [];
+  const otherUpdates = (preview?.update.length ?? 0) - changed.length;
+  const protectedRows = preview?.archive.filter((r) => r.protected) ?? [];
+  const archived = preview?.archive.filter((r) => force || !r.protected) ?? [];
+
   return (
-    <Button onClick={handleRefresh} disabled={loading} className="gap-2">
-      {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-      {loading ? "Refreshing..." : "Refresh from Sheet"}
-    </Button>
+    <>
+      <Button onClick={handlePreview} disabled={loading} className="gap-2">
+        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        {loading ? "Refreshing..." : "Refresh from Sheet"}
+      </Button>
+
+      <AlertDialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Apply sheet sync?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {preview?.insert.length ?? 0} new, {preview?.update.length ?? 0} updated, {archived.length} archived,{" "}
+              {unchangedRows} unchanged.
+              Nothing has changed yet.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {preview && (
+            <div className="space-y-4">
+              <PreviewSection title="New orders" rows={preview.insert} empty="No new rows in the sheet" />
+              <PreviewSection
+                title="Changed orders"
+                rows={changed}
+                empty={
+                  otherUpdates > 0
+                    ? `${otherUpdates} order(s) only have other sheet columns updated`
+                    : "No changes to existing orders"
+                }
+              />
+              <PreviewSection
+                title="Archived orders"
+                rows={preview.archive.map((r) => ({ ...r, protected: r.protected && !force }))}
+                empty="Every order is still in its sheet"
+              />
+              {protectedRows.length > 0 && (
+                <div className="flex items-start gap-2 rounded-md border border-warning/20 bg-warning/10 p-3">
+                  <Checkbox
+                    id="force-purge"
+                    checked={force}
+                    onCheckedChange={(checked) => setForce(checked === true)}
+                  />
+                  <Label htmlFor="force-purge" className="text-sm font-normal leading-snug">
+                    Also archive the {protectedRows.length} order(s) marked Kept. They are in progress, done, or
+                    were restored by an admin.
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRefresh}
+              className={force ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : undefined}
+            >
+              {force ? "Sync and archive all" : "Sync"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
   );
 }
@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { UNEARNED_STATUSES } from "@/lib/orders";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Package, CheckCircle2, Clock, DollarSign } from "lucide-react";
 
@@ -27,18 +28,19 @@ const AdminStats = () => {
       .select("*", { count: "exact", head: true })
       .eq("status", "available");
 
-    // Completed orders
+    // Completed orders, including approved ones reopened for a revision
     const { count: completedOrders } = await supabase
       .from("orders")
       .select("*", { count: "exact", head: true })
-      .eq("status", "completed");
+      .not("completed_at", "is", null)
+      .not("status", "in", UNEARNED_STATUSES);
 
-    // Total revenue from completed orders (excluding failed)
+    // Total revenue from approved orders; submitted work stays in_review until an admin approves it
     const { data: revenueData } = await supabase
       .from("orders")
-      .select("price, actual_amount, deliverable_link")
-      .eq("status", "completed")
-      .neq("deliverable_link", "FAILED");
+      .select("price, actual_amount")
+      .not("completed_at", "is", null)
+      .not("status", "in", UNEARNED_STATUSES);
 
     const totalRevenue =
       revenueData?.reduce(
@@ -54,9 +54,9 @@ export default function CategoryPieChart() {
       rec.value += 1;
       if (o.status === "completed") {
         rec.revenue += Number(o.price || 0);
-        // Failed sentinel from earlier logic
-        // We don't have deliverable_link here; count success as completed by default
         rec.success += 1;
+      } else if (o.status === "failed") {
+        rec.failed += 1;
       }
     }
     return Array.from(map.values()).sort((a, b) => b.value - a.value).slice(0, 8);
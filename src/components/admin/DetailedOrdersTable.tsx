@@ -1,10 +1,27 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { type ColumnMapping, type SheetSourceMapping, extractFromSheet } from "@/lib/sheetMapping";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import OrderContactDetails from "@/components/orders/OrderContactDetails";
+import OrderTimeline from "@/components/orders/OrderTimeline";
+import EditorPicker, { type AssignableOrder } from "@/components/admin/EditorPicker";
+import RequestRevisionDialog, { type RevisableOrder } from "@/components/admin/RequestRevisionDialog";
+import OrderRounds from "@/components/orders/OrderRounds";
+import OrderComments from "@/components/orders/OrderComments";
+import { useUnreadComments } from "@/hooks/use-unread-comments";
+import DeliverableFiles from "@/components/orders/DeliverableFiles";
+import BriefAttachments from "@/components/orders/BriefAttachments";
+import { briefsOf, deliverablesOf } from "@/lib/attachments";
+import { statusBadgeClass, statusLabel } from "@/lib/orders";
+import { restoreOrder } from "@/lib/orderActions";
 import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
 
 interface OrderRow {
   id: string;
@@ -16,26 +33,39 @@ interface OrderRow {
   created_at: string | null;
   completed_at: string | null;
   deliverable_link: string | null;
-  raw_sheet_json?: any | null;
+  source_id: string | null;
+  client_id: string | null;
+  revision_count: number;
+  attachments: Json;
+  raw_sheet_json?: Json | null;
+  archived_at: string | null;
+  archive_reason: string | null;
 }
 
+// Archived orders (removed from their sheet) are listed separately; analytics still count them
+type OrdersView = "active" | "archived";
+
 export default function DetailedOrdersTable() {
   const [loading, setLoading] = useState(true);
   const [orders, setOrders] = useState<OrderRow[]>([]);
   const [names, setNames] = useState<Record<string, string>>({});
   const [selected, setSelected] = useState<OrderRow | null>(null);
+  const [sources, setSources] = useState<Record<string, SheetSourceMapping>>({});
+  const [assigning, setAssigning] = useState<AssignableOrder | null>(null);
+  const [revising, setRevising] = useState<RevisableOrder | null>(null);
+  const [view, setView] = useState<OrdersView>("active");
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { counts: unreadComments, refresh: refreshUnread } = useUnreadComments(orders.map((o) => o.id));
 
-  useEffect(() => {
-    fetchData();
-  }, []);
-
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     setLoading(true);
-    const { data: rows, error } = await supabase
+    const query = supabase
       .from("orders")
-      .select("id, client_name, requirement_text, price, status, taken_by, created_at, completed_at, deliverable_link, raw_sheet_json")
-      .order("created_at", { ascending: false })
-      .limit(200);
+      .select("id, client_name, requirement_text, price, status, taken_by, created_at, completed_at, deliverable_link, attachments, source_id, client_id, revision_count, raw_sheet_json, archived_at, archive_reason");
+    const { data: rows, error } = await (view === "archived"
+      ? query.not("archived_at", "is", null).order("archived_at", { ascending: false })
+      : query.is("archived_at", null).order("created_at", { ascending: false })
+    ).limit(200);
 
     if (error) {
       console.error(error);
@@ -46,6 +76,13 @@ export default function DetailedOrdersTable() {
 
     setOrders(rows || []);
 
+    const { data: srcs } = await supabase.from("sheet_sources").select("id, column_mapping, columns");
+    const srcMap: Record<string, SheetSourceMapping> = {};
+    (srcs || []).forEach((src) => {
+      srcMap[src.id] = { column_mapping: src.column_mapping as ColumnMapping, columns: src.columns };
+    });
+    setSources(srcMap);
+
     // Fetch editor names for taken_by
     const ids = Array.from(new Set((rows || []).map(r => r.taken_by).filter(Boolean))) as string[];
     if (ids.length > 0) {
@@ -60,124 +97,197 @@ export default function DetailedOrdersTable() {
       setNames(map);
     }
     setLoading(false);
+  }, [view]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Reload one order's attachments without the full-table spinner closing the dialog
+  const refreshAttachments = async (orderId: string) => {
+    const { data, error } = await supabase.from("orders").select("attachments").eq("id", orderId).single();
+    if (error) {
+      console.error(error);
+      return;
+    }
+    setOrders((prev) => prev.map((o) => (o.id === orderId ? { ...o, attachments: data.attachments } : o)));
+    setSelected((prev) => (prev && prev.id === orderId ? { ...prev, attachments: data.attachments } : prev));
+  };
+
+  const handleRestore = async (orderId: string) => {
+    setRestoringId(orderId);
+    const { error } = await restoreOrder(orderId);
+    setRestoringId(null);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    toast.success("Order restored");
+    fetchData();
   };
 
   const rowsView = useMemo(() => {
     return orders.map(o => {
-      const isFailed = o.status === "completed" && o.deliverable_link === "FAILED";
       const editor = o.taken_by ? (names[o.taken_by] || o.taken_by) : "-";
-      return { ...o, isFailed, editor } as OrderRow & { isFailed: boolean; editor: string };
+      return { ...o, editor } as OrderRow & { editor: string };
     });
   }, [orders, names]);
 
-  const extractFromSheet = (row: OrderRow | null) => {
-    const raw = (row as any)?.raw_sheet_json as any;
-    const get = (idx: number) => {
-      try {
-        const cell = raw?.c?.[idx];
-        return (cell?.f ?? cell?.v) ?? null;
-      } catch { return null; }
-    };
-    return {
-      timestamp: get(0),
-      service: get(1),
-      description: get(2),
-      budget: get(3),
-      timeline: get(4),
-      fullName: get(5),
-      email: get(6),
-      phone: get(7),
-      whatsapp: get(8),
-    };
-  };
-
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center py-10">
-        <Loader2 className="h-5 w-5 animate-spin text-primary" />
-      </div>
-    );
-  }
-
   return (
     <Card className="glass-effect border-border/50 overflow-hidden">
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-sm text-muted-foreground">Detailed Orders (latest)</CardTitle>
+        <Tabs value={view} onValueChange={(v) => setView(v as OrdersView)}>
+          <TabsList className="bg-muted/50">
+            <TabsTrigger value="active">Orders</TabsTrigger>
+            <TabsTrigger value="archived">Archived</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </CardHeader>
       <CardContent>
-        <div className="relative overflow-x-auto">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="text-muted-foreground border-b border-border">
-                <th className="py-2 pr-4 text-left">Client</th>
-                <th className="py-2 pr-4 text-left">Editor</th>
-                <th className="py-2 pr-4 text-left">Price</th>
-                <th className="py-2 pr-4 text-left">Status</th>
-                <th className="py-2 pr-4 text-left">Created</th>
-                <th className="py-2 pr-4 text-left">Completed</th>
-                <th className="py-2 pr-4 text-left">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {rowsView.map((r) => (
-                <tr key={r.id} className="border-b border-border/50 hover:bg-muted/10 transition-colors">
-                  <td className="py-2 pr-4 max-w-[360px]">
-                    <div className="font-medium">{r.client_name}</div>
-                    <div className="text-muted-foreground line-clamp-1">{r.requirement_text}</div>
-                  </td>
-                  <td className="py-2 pr-4">{r.editor}</td>
-                  <td className="py-2 pr-4 font-semibold">₹{Number(r.price).toLocaleString()}</td>
-                  <td className="py-2 pr-4">
-                    {r.status === "taken" && (
-                      <Badge className="bg-warning/10 text-warning border-warning/20">In Progress</Badge>
-                    )}
-                    {r.status === "completed" && !r.isFailed && (
-                      <Badge className="bg-success/10 text-success border-success/20">Success</Badge>
-                    )}
-                    {r.isFailed && (
-                      <Badge className="bg-destructive/10 text-destructive border-destructive/20">Failed</Badge>
-                    )}
-                    {r.status === "available" && (
-                      <Badge className="bg-accent/10 text-accent border-accent/20">Available</Badge>
-                    )}
-                  </td>
-                  <td className="py-2 pr-4 text-muted-foreground">{r.created_at ? new Date(r.created_at).toLocaleString() : "-"}</td>
-                  <td className="py-2 pr-4 text-muted-foreground">{r.completed_at ? new Date(r.completed_at).toLocaleString() : "-"}</td>
-                  <td className="py-2 pr-4">
-                    <Dialog>
-                      <DialogTrigger asChild>
-                        <Button size="sm" variant="secondary" onClick={() => setSelected(r)}>Inspect</Button>
-                      </DialogTrigger>
-                      <DialogContent className="max-w-xl">
-                        <DialogHeader>
-                          <DialogTitle>Order Inspection</DialogTitle>
-                        </DialogHeader>
-                        <div className="space-y-3 text-sm">
-                          <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Client</div><div className="col-span-2 font-medium">{selected?.client_name}</div></div>
-                          <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Requirement</div><div className="col-span-2">{selected?.requirement_text}</div></div>
-                          <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Price</div><div className="col-span-2 font-semibold">₹{Number(selected?.price ?? 0).toLocaleString()}</div></div>
-                          {(() => {
-                            const s = extractFromSheet(selected);
-                            return (
-                              <>
-                                <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Email</div><div className="col-span-2 break-all">{s.email || '-'}</div></div>
-                                <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Phone</div><div className="col-span-2">{s.phone || '-'}</div></div>
-                                <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Service</div><div className="col-span-2">{s.service || '-'}</div></div>
-                                <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Timeline</div><div className="col-span-2">{s.timeline || '-'}</div></div>
-                                <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Budget</div><div className="col-span-2">{s.budget || '-'}</div></div>
-                                <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Timestamp</div><div className="col-span-2">{s.timestamp || '-'}</div></div>
-                              </>
-                            );
-                          })()}
-                        </div>
-                      </DialogContent>
-                    </Dialog>
-                  </td>
+        {loading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : view === "archived" && rowsView.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No archived orders</p>
+        ) : (
+          <div className="relative overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 text-left">Client</th>
+                  <th className="py-2 pr-4 text-left">Editor</th>
+                  <th className="py-2 pr-4 text-left">Price</th>
+                  <th className="py-2 pr-4 text-left">Status</th>
+                  <th className="py-2 pr-4 text-left">Created</th>
+                  <th className="py-2 pr-4 text-left">{view === "archived" ? "Archived" : "Completed"}</th>
+                  <th className="py-2 pr-4 text-left">Actions</th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+              </thead>
+              <tbody>
+                {rowsView.map((r) => (
+                  <tr key={r.id} className="border-b border-border/50 hover:bg-muted/10 transition-colors">
+                    <td className="py-2 pr-4 max-w-[360px]">
+                      {r.client_id ? (
+                        <Link to={`/clients/${r.client_id}`} className="font-medium hover:text-primary hover:underline">
+                          {r.client_name}
+                        </Link>
+                      ) : (
+                        <div className="font-medium">{r.client_name}</div>
+                      )}
+                      <div className="text-muted-foreground line-clamp-1">{r.requirement_text}</div>
+                    </td>
+                    <td className="py-2 pr-4">{r.editor}</td>
+                    <td className="py-2 pr-4 font-semibold">₹{Number(r.price).toLocaleString()}</td>
+                    <td className="py-2 pr-4">
+                      <Badge className={statusBadgeClass(r.status)}>{statusLabel(r.status)}</Badge>
+                    </td>
+                    <td className="py-2 pr-4 text-muted-foreground">{r.created_at ? new Date(r.created_at).toLocaleString() : "-"}</td>
+                    {view === "archived" ? (
+                      <td className="py-2 pr-4 text-muted-foreground">
+                        <div>{r.archived_at ? new Date(r.archived_at).toLocaleString() : "-"}</div>
+                        {r.archive_reason && <div className="text-xs">{r.archive_reason}</div>}
+                      </td>
+                    ) : (
+                      <td className="py-2 pr-4 text-muted-foreground">{r.completed_at ? new Date(r.completed_at).toLocaleString() : "-"}</td>
+                    )}
+                    <td className="py-2 pr-4 flex gap-2">
+                      {view === "archived" && (
+                        <Button size="sm" variant="outline" disabled={restoringId === r.id} onClick={() => handleRestore(r.id)}>
+                          {restoringId === r.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                          Restore
+                        </Button>
+                      )}
+                      {view === "active" && (r.status === "available" || r.status === "taken") && (
+                        <Button size="sm" variant="outline" onClick={() => setAssigning(r)}>
+                          {r.status === "taken" ? "Reassign" : "Assign"}
+                        </Button>
+                      )}
+                      {view === "active" && r.status === "completed" && (
+                        <Button size="sm" variant="outline" onClick={() => setRevising(r)}>
+                          Revision
+                        </Button>
+                      )}
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button size="sm" variant="secondary" className="gap-1" onClick={() => setSelected(r)}>
+                            Inspect
+                            {unreadComments[r.id]?.unread > 0 && (
+                              <Badge className="bg-primary/10 text-primary border-primary/20 px-1.5">{unreadComments[r.id].unread}</Badge>
+                            )}
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-xl max-h-[85vh] overflow-y-auto">
+                          <DialogHeader>
+                            <DialogTitle>Order Inspection</DialogTitle>
+                          </DialogHeader>
+                          <div className="space-y-3 text-sm">
+                            <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Client</div><div className="col-span-2 font-medium">{selected?.client_name}</div></div>
+                            <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Requirement</div><div className="col-span-2">{selected?.requirement_text}</div></div>
+                            <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Price</div><div className="col-span-2 font-semibold">₹{Number(selected?.price ?? 0).toLocaleString()}</div></div>
+                            {(() => {
+                              const s = extractFromSheet(
+                                selected?.raw_sheet_json,
+                                selected?.source_id ? sources[selected.source_id] : null
+                              );
+                              return (
+                                <>
+                                  {selected && <OrderContactDetails orderId={selected.id} />}
+                                  <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Service</div><div className="col-span-2">{s.service || '-'}</div></div>
+                                  <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Timeline</div><div className="col-span-2">{s.timeline || '-'}</div></div>
+                                  <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Budget</div><div className="col-span-2">{s.budget || '-'}</div></div>
+                                  <div className="grid grid-cols-3 gap-2"><div className="text-muted-foreground">Timestamp</div><div className="col-span-2">{s.timestamp || '-'}</div></div>
+                                </>
+                              );
+                            })()}
+                            {selected && (
+                              <div className="pt-3 border-t border-border space-y-2">
+                                <div className="text-muted-foreground">Brief</div>
+                                <BriefAttachments
+                                  orderId={selected.id}
+                                  attachments={briefsOf(selected.attachments)}
+                                  canManage
+                                  onChanged={() => refreshAttachments(selected.id)}
+                                />
+                              </div>
+                            )}
+                            {selected && deliverablesOf(selected.attachments).length > 0 && (
+                              <div className="pt-3 border-t border-border space-y-2">
+                                <div className="text-muted-foreground">Files</div>
+                                <DeliverableFiles orderId={selected.id} attachments={deliverablesOf(selected.attachments)} />
+                              </div>
+                            )}
+                            {selected && selected.revision_count > 0 && (
+                              <div className="pt-3 border-t border-border space-y-2">
+                                <div className="text-muted-foreground">Rounds ({selected.revision_count} revisions)</div>
+                                <OrderRounds orderId={selected.id} revisionCount={selected.revision_count} />
+                              </div>
+                            )}
+                            {selected && (
+                              <div className="pt-3 border-t border-border space-y-2">
+                                <div className="text-muted-foreground">Messages</div>
+                                <OrderComments orderId={selected.id} onRead={refreshUnread} />
+                              </div>
+                            )}
+                            {selected && (
+                              <div className="pt-3 border-t border-border space-y-2">
+                                <div className="text-muted-foreground">Timeline</div>
+                                <OrderTimeline orderId={selected.id} />
+                              </div>
+                            )}
+                          </div>
+                        </DialogContent>
+                      </Dialog>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <EditorPicker order={assigning} onClose={() => setAssigning(null)} onAssigned={fetchData} />
+        <RequestRevisionDialog order={revising} onClose={() => setRevising(null)} onRequested={fetchData} />
       </CardContent>
     </Card>
   );
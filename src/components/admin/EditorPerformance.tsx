@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { UNEARNED_STATUSES } from "@/lib/orders";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -53,7 +54,8 @@ const EditorPerformance = () => {
         .from("orders")
         .select("*", { count: "exact", head: true })
         .eq("taken_by", userId)
-        .eq("status", "completed");
+        .not("completed_at", "is", null)
+        .not("status", "in", UNEARNED_STATUSES);
 
       const { count: inProgress } = await supabase
         .from("orders")
@@ -61,13 +63,13 @@ const EditorPerformance = () => {
         .eq("taken_by", userId)
         .eq("status", "taken");
 
-      // Get total revenue
+      // Get total revenue (approved orders, including ones reopened for a revision)
       const { data: revenueData } = await supabase
         .from("orders")
-        .select("price, actual_amount, deliverable_link")
+        .select("price, actual_amount")
         .eq("taken_by", userId)
-        .eq("status", "completed")
-        .neq("deliverable_link", "FAILED");
+        .not("completed_at", "is", null)
+        .not("status", "in", UNEARNED_STATUSES);
 
       const totalRevenue =
         revenueData?.reduce(
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { assignOrder } from "@/lib/orderActions";
+import { Loader2, UserCheck } from "lucide-react";
+import { toast } from "sonner";
+
+export interface AssignableOrder {
+  id: string;
+  client_name: string;
+  taken_by: string | null;
+}
+
+interface EditorLoad {
+  user_id: string;
+  name: string;
+  active: number;
+  limit: number;
+}
+
+interface EditorPickerProps {
+  // The dialog is open while an order is set
+  order: AssignableOrder | null;
+  onClose: () => void;
+  onAssigned?: () => void;
+}
+
+// Admin dialog for assigning or reassigning an order, showing each editor's active orders against their limit
+export default function EditorPicker({ order, onClose, onAssigned }: EditorPickerProps) {
+  const [loading, setLoading] = useState(false);
+  const [editors, setEditors] = useState<EditorLoad[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [assigning, setAssigning] = useState(false);
+
+  const fetchEditors = useCallback(async () => {
+    setLoading(true);
+    const [{ data: roles, error: rolesErr }, { data: settings }, { data: overrides }, { data: active }] =
+      await Promise.all([
+        supabase.from("user_roles").select("user_id, role"),
+        supabase.from("admin_settings").select("max_active_orders_default").limit(1).maybeSingle(),
+        supabase.from("editor_settings").select("user_id, max_active_orders"),
+        supabase.from("orders").select("taken_by").eq("status", "taken"),
+      ]);
+    if (rolesErr) {
+      console.error(rolesErr);
+      setLoading(false);
+      return;
+    }
+
+    const admins = new Set((roles ?? []).filter((r) => r.role === "admin").map((r) => r.user_id));
+    const editorIds = (roles ?? []).filter((r) => r.role === "editor" && !admins.has(r.user_id)).map((r) => r.user_id);
+    if (editorIds.length === 0) {
+      setEditors([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data: profiles } = await supabase.from("profiles").select("id, full_name, email").in("id", editorIds);
+    const defaultLimit = settings?.max_active_orders_default ?? 3;
+    const overrideById = new Map((overrides ?? []).map((o) => [o.user_id, o.max_active_orders]));
+    const activeById = new Map<string, number>();
+    for (const o of active ?? []) {
+      if (o.taken_by) activeById.set(o.taken_by, (activeById.get(o.taken_by) ?? 0) + 1);
+    }
+
+    const list: EditorLoad[] = (profiles ?? []).map((p) => ({
+      user_id: p.id,
+      name: p.full_name || p.email,
+      active: activeById.get(p.id) ?? 0,
+      limit: overrideById.get(p.id) ?? defaultLimit,
+    }));
+    // Least loaded first
+    list.sort((a, b) => a.active / Math.max(a.limit, 1) - b.active / Math.max(b.limit, 1) || a.name.localeCompare(b.name));
+    setEditors(list);
+    setLoading(false);
+  }, []);
+
+  const orderId = order?.id;
+  useEffect(() => {
+    if (!orderId) return;
+    setSelected(null);
+    setReason("");
+    fetchEditors();
+  }, [orderId, fetchEditors]);
+
+  const handleAssign = async () => {
+    if (!order || !selected) return;
+    setAssigning(true);
+    const { error } = await assignOrder(order.id, selected, reason);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(order.taken_by ? "Order reassigned" : "Order assigned");
+      onAssigned?.();
+      onClose();
+    }
+    setAssigning(false);
+  };
+
+  return (
+    <Dialog open={order !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{order?.taken_by ? "Reassign Order" : "Assign Order"}</DialogTitle>
+          <DialogDescription>{order?.client_name}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : editors.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No editors found</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {editors.map((e) => {
+              const current = e.user_id === order?.taken_by;
+              const full = e.active >= e.limit;
+              return (
+                <button
+                  key={e.user_id}
+                  type="button"
+                  disabled={current}
+                  onClick={() => setSelected(e.user_id)}
+                  className={`w-full flex items-center justify-between rounded-md border px-3 py-2 text-left text-sm transition-colors ${
+                    selected === e.user_id ? "border-primary bg-primary/10" : "border-border/50 hover:bg-muted/20"
+                  } ${current ? "opacity-50 cursor-not-allowed" : ""}`}
+                >
+                  <span className="font-medium">
+                    {e.name}
+                    {current && <span className="ml-2 text-xs text-muted-foreground">(current)</span>}
+                  </span>
+                  <Badge
+                    variant="secondary"
+                    className={
+                      full
+                        ? "bg-destructive/10 text-destructive border-destructive/20"
+                        : "bg-success/10 text-success border-success/20"
+                    }
+                  >
+                    {e.active} / {e.limit} active
+                  </Badge>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="assign-reason" className="text-sm">
+            Reason (Optional)
+          </Label>
+          <Textarea
+            id="assign-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Shown in the order timeline"
+            className="bg-input border-border"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={!selected || assigning} className="gap-2">
+            {assigning ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserCheck className="h-4 w-4" />}
+            {order?.taken_by ? "Reassign" : "Assign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
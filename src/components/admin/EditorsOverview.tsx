@@ -2,7 +2,11 @@ import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Users, ClipboardList, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Users, ClipboardList, CheckCircle2, Save } from "lucide-react";
+import { toast } from "sonner";
+import EditorPicker, { type AssignableOrder } from "@/components/admin/EditorPicker";
 
 interface EditorInfo {
   user_id: string;
@@ -10,11 +14,18 @@ interface EditorInfo {
   email: string;
   currentTaken: number;
   completed: number;
+  // Per-editor override; null means the admin_settings default applies
+  maxActiveOverride: number | null;
+  takenOrders: AssignableOrder[];
 }
 
 export default function EditorsOverview() {
   const [loading, setLoading] = useState(true);
   const [editors, setEditors] = useState<EditorInfo[]>([]);
+  const [defaultLimit, setDefaultLimit] = useState(3);
+  const [limitDrafts, setLimitDrafts] = useState<Record<string, string>>({});
+  const [savingLimit, setSavingLimit] = useState<string | null>(null);
+  const [reassigning, setReassigning] = useState<AssignableOrder | null>(null);
 
   useEffect(() => {
     fetchEditorsOverview();
@@ -65,7 +76,7 @@ export default function EditorsOverview() {
     // 3) Get orders grouped by taken_by + status
     const { data: orders, error: ordersErr } = await supabase
       .from("orders")
-      .select("taken_by, status")
+      .select("id, client_name, taken_by, status")
       .in("taken_by", editorIds);
     if (ordersErr) {
       console.error(ordersErr);
@@ -73,14 +84,24 @@ export default function EditorsOverview() {
       return;
     }
 
-    const agg = new Map<string, { taken: number; completed: number }>();
-    for (const id of editorIds) agg.set(id, { taken: 0, completed: 0 });
+    const [{ data: settings }, { data: overrides, error: overridesErr }] = await Promise.all([
+      supabase.from("admin_settings").select("max_active_orders_default").limit(1).maybeSingle(),
+      supabase.from("editor_settings").select("user_id, max_active_orders").in("user_id", editorIds),
+    ]);
+    if (overridesErr) console.error(overridesErr);
+    if (settings) setDefaultLimit(settings.max_active_orders_default);
+    const overrideById = new Map((overrides ?? []).map((o) => [o.user_id, o.max_active_orders]));
+
+    const agg = new Map<string, { taken: number; completed: number; orders: AssignableOrder[] }>();
+    for (const id of editorIds) agg.set(id, { taken: 0, completed: 0, orders: [] });
     for (const o of orders ?? []) {
       const id = o.taken_by as string | null;
       if (!id) continue;
-      const rec = agg.get(id) ?? { taken: 0, completed: 0 };
-      if (o.status === "taken") rec.taken += 1;
-      else if (o.status === "completed") rec.completed += 1;
+      const rec = agg.get(id) ?? { taken: 0, completed: 0, orders: [] };
+      if (o.status === "taken") {
+        rec.taken += 1;
+        rec.orders.push({ id: o.id, client_name: o.client_name, taken_by: id });
+      } else if (o.status === "completed") rec.completed += 1;
       agg.set(id, rec);
     }
 
@@ -90,15 +111,46 @@ export default function EditorsOverview() {
       email: p.email,
       currentTaken: agg.get(p.id)?.taken ?? 0,
       completed: agg.get(p.id)?.completed ?? 0,
+      maxActiveOverride: overrideById.get(p.id) ?? null,
+      takenOrders: agg.get(p.id)?.orders ?? [],
     }));
 
     // Sort by current workload desc
     info.sort((a, b) => b.currentTaken - a.currentTaken);
 
     setEditors(info);
+    setLimitDrafts(
+      Object.fromEntries(info.map((e) => [e.user_id, e.maxActiveOverride === null ? "" : String(e.maxActiveOverride)]))
+    );
     setLoading(false);
   };
 
+  // An empty value clears the override so the global default applies again
+  const handleSaveLimit = async (userId: string) => {
+    const raw = (limitDrafts[userId] ?? "").trim();
+    const value = raw === "" ? null : Number(raw);
+    if (value !== null && (!Number.isInteger(value) || value < 0 || value > 100)) {
+      toast.error("Limit must be a whole number between 0 and 100");
+      return;
+    }
+
+    setSavingLimit(userId);
+    const { error } =
+      value === null
+        ? await supabase.from("editor_settings").delete().eq("user_id", userId)
+        : await supabase
+            .from("editor_settings")
+            .upsert({ user_id: userId, max_active_orders: value }, { onConflict: "user_id" });
+    if (error) {
+      toast.error("Failed to save order limit");
+      console.error(error);
+    } else {
+      toast.success(value === null ? "Limit reset to default" : "Order limit saved");
+      setEditors((prev) => prev.map((e) => (e.user_id === userId ? { ...e, maxActiveOverride: value } : e)));
+    }
+    setSavingLimit(null);
+  };
+
   const totalEditors = editors.length;
   const totalCurrentlyWorking = useMemo(
     () => editors.reduce((sum, e) => sum + (e.currentTaken > 0 ? 1 : 0), 0),
@@ -155,17 +207,55 @@ export default function EditorsOverview() {
               <div className="flex items-center gap-6 text-sm">
                 <div className="flex items-center gap-2">
                   <ClipboardList className="h-4 w-4 text-warning" />
-                  <span>In Progress: <strong>{e.currentTaken}</strong></span>
+                  <span>
+                    In Progress: <strong>{e.currentTaken}</strong> / {e.maxActiveOverride ?? defaultLimit}
+                  </span>
                 </div>
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="h-4 w-4 text-success" />
                   <span>Completed: <strong>{e.completed}</strong></span>
                 </div>
               </div>
+              {e.takenOrders.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm">
+                  {e.takenOrders.map((o) => (
+                    <li key={o.id} className="flex items-center justify-between gap-2">
+                      <span className="truncate text-muted-foreground">{o.client_name}</span>
+                      <Button size="sm" variant="ghost" className="h-7" onClick={() => setReassigning(o)}>
+                        Reassign
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="mt-4 flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  placeholder={`Default (${defaultLimit})`}
+                  value={limitDrafts[e.user_id] ?? ""}
+                  onChange={(ev) => setLimitDrafts((prev) => ({ ...prev, [e.user_id]: ev.target.value }))}
+                  className="h-8 w-32 bg-input border-border"
+                  aria-label={`Max active orders for ${e.full_name}`}
+                />
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="gap-1"
+                  onClick={() => handleSaveLimit(e.user_id)}
+                  disabled={savingLimit === e.user_id}
+                >
+                  {savingLimit === e.user_id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                  Limit
+                </Button>
+              </div>
             </CardContent>
           </Card>
         ))}
       </div>
+      <EditorPicker order={reassigning} onClose={() => setReassigning(null)} onAssigned={fetchEditorsOverview} />
     </div>
   );
 }
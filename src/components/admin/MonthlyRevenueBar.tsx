@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { UNEARNED_STATUSES } from "@/lib/orders";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 function startOfMonth(date = new Date()) {
@@ -26,14 +27,14 @@ export default function MonthlyRevenueBar() {
       setThreshold(Number(settings.revenue_threshold_default));
     }
 
-    // 2) Current month revenue from completed orders
+    // 2) Current month revenue from orders approved this month (completed_at is the approval time,
+    //    kept while a revision is open)
     const from = startOfMonth();
     const to = startOfNextMonth();
     const { data: completed } = await supabase
       .from("orders")
       .select("price, actual_amount, completed_at")
-      .eq("status", "completed")
-      .neq("deliverable_link", "FAILED")
+      .not("status", "in", UNEARNED_STATUSES)
       .gte("completed_at", from.toISOString())
       .lt("completed_at", to.toISOString());
 
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { resolveOrderChange } from "@/lib/orderActions";
+import { statusBadgeClass, statusLabel } from "@/lib/orders";
+import { Check, FileDiff, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface ChangeRow {
+  id: string;
+  order_id: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  detected_at: string;
+  orders: { client_name: string; status: string; taken_by: string | null } | null;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  client_name: "Client",
+  requirement_text: "Requirement",
+  price: "Price",
+  due_date: "Due date",
+};
+
+function formatValue(field: string, value: string | null): string {
+  if (value === null || value === "") return "-";
+  if (field === "price") return `₹${Number(value).toLocaleString()}`;
+  if (field === "due_date") return new Date(value).toLocaleDateString();
+  return value;
+}
+
+// Sheet edits to orders editors are working on. sync-sheet holds them here instead of
+// rewriting the brief; accepting one applies it to the order and tells the editor.
+export default function PendingOrderChanges() {
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<ChangeRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchChanges();
+
+    const channel = supabase
+      .channel("pending-order-changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "order_pending_changes" }, () => fetchChanges())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const fetchChanges = async () => {
+    const { data, error } = await supabase
+      .from("order_pending_changes")
+      .select("id, order_id, field, old_value, new_value, detected_at, orders(client_name, status, taken_by)")
+      .eq("status", "pending")
+      .order("detected_at", { ascending: true });
+    if (error) {
+      console.error(error);
+      setLoading(false);
+      return;
+    }
+
+    const ids = Array.from(new Set((data || []).map((r) => r.orders?.taken_by).filter(Boolean))) as string[];
+    if (ids.length > 0) {
+      const { data: profs } = await supabase.from("profiles").select("id, full_name, email").in("id", ids);
+      const map: Record<string, string> = {};
+      (profs || []).forEach((p) => (map[p.id] = p.full_name || p.email));
+      setNames(map);
+    }
+    setRows(data || []);
+    setLoading(false);
+  };
+
+  const handleResolve = async (changeId: string, accept: boolean) => {
+    setBusy(changeId);
+    const { error } = await resolveOrderChange(changeId, accept);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(accept ? "Change applied to the order" : "Change rejected");
+      setRows((prev) => prev.filter((r) => r.id !== changeId));
+    }
+    setBusy(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="glass-effect border-border/50 overflow-hidden">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm text-muted-foreground">
+          <FileDiff className="h-4 w-4" />
+          Sheet Changes to Review ({rows.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No sheet changes waiting for review</p>
+        ) : (
+          <div className="relative overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 text-left">Order</th>
+                  <th className="py-2 pr-4 text-left">Field</th>
+                  <th className="py-2 pr-4 text-left">Current</th>
+                  <th className="py-2 pr-4 text-left">In the sheet</th>
+                  <th className="py-2 pr-4 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.id} className="border-b border-border/50 align-top">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{r.orders?.client_name ?? "-"}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {r.orders?.taken_by ? names[r.orders.taken_by] || "Unknown editor" : "-"}
+                        {` · ${formatDistanceToNow(new Date(r.detected_at), { addSuffix: true })}`}
+                      </div>
+                      {r.orders && (
+                        <Badge className={`mt-1 ${statusBadgeClass(r.orders.status)}`}>{statusLabel(r.orders.status)}</Badge>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{FIELD_LABELS[r.field] ?? r.field}</td>
+                    <td className="py-2 pr-4 max-w-[260px] text-muted-foreground whitespace-pre-wrap">
+                      {formatValue(r.field, r.old_value)}
+                    </td>
+                    <td className="py-2 pr-4 max-w-[260px] whitespace-pre-wrap">{formatValue(r.field, r.new_value)}</td>
+                    <td className="py-2 pr-4">
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          className="gap-1 bg-success hover:bg-success/90"
+                          onClick={() => handleResolve(r.id, true)}
+                          disabled={busy === r.id}
+                        >
+                          {busy === r.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          className="gap-1"
+                          onClick={() => handleResolve(r.id, false)}
+                          disabled={busy === r.id}
+                        >
+                          <X className="h-3 w-3" />
+                          Reject
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { requestRevision } from "@/lib/orderActions";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+export interface RevisableOrder {
+  id: string;
+  client_name: string;
+  revision_count: number;
+}
+
+interface RequestRevisionDialogProps {
+  // The dialog is open while an order is set
+  order: RevisableOrder | null;
+  onClose: () => void;
+  onRequested?: () => void;
+}
+
+// Reopens a completed order for the same editor as the next revision round
+export default function RequestRevisionDialog({ order, onClose, onRequested }: RequestRevisionDialogProps) {
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setNotes("");
+  }, [order?.id]);
+
+  const handleSubmit = async () => {
+    if (!order) return;
+    if (!notes.trim()) {
+      toast.error("Describe what the client wants changed");
+      return;
+    }
+    setSaving(true);
+    const { error } = await requestRevision(order.id, notes);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(`Revision ${order.revision_count + 1} sent to the editor`);
+      onRequested?.();
+      onClose();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={order !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Revision</DialogTitle>
+          <DialogDescription>
+            {order?.client_name} goes back to the same editor as revision {(order?.revision_count ?? 0) + 1}. It stops
+            counting as completed until the new delivery is approved.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="revision-notes" className="text-sm">
+            Revision notes
+          </Label>
+          <Textarea
+            id="revision-notes"
+            rows={4}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="What does the client want changed?"
+            className="bg-input border-border"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            Send revision
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
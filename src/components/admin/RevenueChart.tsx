@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { UNEARNED_STATUSES } from "@/lib/orders";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { DollarSign } from "lucide-react";
@@ -30,20 +31,19 @@ const RevenueChart = () => {
       setThreshold(Number(settings.revenue_threshold_default));
     }
 
-    // Get all completed orders with editor info
+    // Get all approved orders with editor info (an open revision still counts)
     const { data: orders } = await supabase
       .from("orders")
       .select(`
         price,
         actual_amount,
-        deliverable_link,
         taken_by,
         profiles!orders_taken_by_fkey (
           full_name
         )
       `)
-      .eq("status", "completed")
-      .neq("deliverable_link", "FAILED")
+      .not("completed_at", "is", null)
+      .not("status", "in", UNEARNED_STATUSES)
       .not("taken_by", "is", null);
 
     if (orders) {
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import DeliverableFiles from "@/components/orders/DeliverableFiles";
+import { approveOrder, requestChanges } from "@/lib/orderActions";
+import { deliverablesOf } from "@/lib/attachments";
+import type { Json } from "@/integrations/supabase/types";
+import { CheckCircle2, ClipboardCheck, Loader2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface ReviewRow {
+  id: string;
+  client_name: string;
+  requirement_text: string;
+  price: number;
+  actual_amount: number | null;
+  deliverable_link: string | null;
+  attachments: Json;
+  editor_feedback: string | null;
+  taken_by: string | null;
+  submitted_at: string | null;
+}
+
+// Submitted work waiting for an admin. Approved orders become 'completed' and count toward revenue.
+export default function ReviewQueue() {
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQueue();
+
+    const channel = supabase
+      .channel("review-queue-changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "orders" }, () => fetchQueue())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const fetchQueue = async () => {
+    const { data, error } = await supabase
+      .from("orders")
+      .select("id, client_name, requirement_text, price, actual_amount, deliverable_link, attachments, editor_feedback, taken_by, submitted_at")
+      .eq("status", "in_review")
+      .order("submitted_at", { ascending: true });
+    if (error) {
+      console.error(error);
+      setLoading(false);
+      return;
+    }
+
+    const ids = Array.from(new Set((data || []).map((r) => r.taken_by).filter(Boolean))) as string[];
+    if (ids.length > 0) {
+      const { data: profs } = await supabase.from("profiles").select("id, full_name, email").in("id", ids);
+      const map: Record<string, string> = {};
+      (profs || []).forEach((p) => (map[p.id] = p.full_name || p.email));
+      setNames(map);
+    }
+    setRows(data || []);
+    setLoading(false);
+  };
+
+  const handleApprove = async (orderId: string) => {
+    setBusy(orderId);
+    const { error } = await approveOrder(orderId, comments[orderId]);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Order approved");
+      setRows((prev) => prev.filter((r) => r.id !== orderId));
+    }
+    setBusy(null);
+  };
+
+  const handleRequestChanges = async (orderId: string) => {
+    const text = (comments[orderId] ?? "").trim();
+    if (!text) {
+      toast.error("Add a comment so the editor knows what to change");
+      return;
+    }
+    setBusy(orderId);
+    const { error } = await requestChanges(orderId, text);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Sent back to the editor");
+      setRows((prev) => prev.filter((r) => r.id !== orderId));
+    }
+    setBusy(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="glass-effect border-border/50 overflow-hidden">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm text-muted-foreground">
+          <ClipboardCheck className="h-4 w-4" />
+          Awaiting Review ({rows.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No orders waiting for review</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {rows.map((r) => (
+              <div key={r.id} className="rounded-md border border-border/50 p-4 space-y-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{r.client_name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {r.taken_by ? names[r.taken_by] || "Unknown editor" : "-"}
+                      {r.submitted_at && ` · submitted ${formatDistanceToNow(new Date(r.submitted_at), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  <Badge variant="secondary">₹{Number(r.actual_amount ?? r.price).toLocaleString()}</Badge>
+                </div>
+                <p className="text-muted-foreground line-clamp-2">{r.requirement_text}</p>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="text-muted-foreground">Deliverable</div>
+                  <div className="col-span-2 break-all">
+                    {r.deliverable_link ? (
+                      <a
+                        href={r.deliverable_link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        {r.deliverable_link}
+                      </a>
+                    ) : (
+                      "-"
+                    )}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="text-muted-foreground">Files</div>
+                  <div className="col-span-2">
+                    <DeliverableFiles orderId={r.id} attachments={deliverablesOf(r.attachments)} />
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="text-muted-foreground">Amount</div>
+                  <div className="col-span-2">
+                    {r.actual_amount !== null ? `₹${Number(r.actual_amount).toLocaleString()}` : "-"}
+                    <span className="text-muted-foreground"> (listed ₹{Number(r.price).toLocaleString()})</span>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="text-muted-foreground">Feedback</div>
+                  <div className="col-span-2 whitespace-pre-wrap">{r.editor_feedback || "-"}</div>
+                </div>
+                <Textarea
+                  value={comments[r.id] || ""}
+                  onChange={(e) => setComments((prev) => ({ ...prev, [r.id]: e.target.value }))}
+                  placeholder="Comments for the editor (required when requesting changes)"
+                  className="bg-input border-border"
+                  rows={2}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="gap-1 bg-success hover:bg-success/90"
+                    onClick={() => handleApprove(r.id)}
+                    disabled={busy === r.id}
+                  >
+                    {busy === r.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <CheckCircle2 className="h-3 w-3" />}
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    className="gap-1"
+                    onClick={() => handleRequestChanges(r.id)}
+                    disabled={busy === r.id}
+                  >
+                    <Undo2 className="h-3 w-3" />
+                    Request changes
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronRight, Loader2, Search, Users } from "lucide-react";
+import { orderRevenue, statusBadgeClass, statusLabel } from "@/lib/orders";
+
+interface ClientRow {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  whatsapp: string | null;
+  first_seen_at: string | null;
+  last_contact_at: string | null;
+}
+
+interface ClientOrder {
+  id: string;
+  client_id: string | null;
+  requirement_text: string;
+  price: number;
+  actual_amount: number | null;
+  status: string;
+  created_at: string | null;
+  completed_at: string | null;
+}
+
+interface ClientsDirectoryProps {
+  selectedClientId?: string;
+}
+
+export default function ClientsDirectory({ selectedClientId }: ClientsDirectoryProps) {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [clients, setClients] = useState<ClientRow[]>([]);
+  const [orders, setOrders] = useState<ClientOrder[]>([]);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedClientId || loading) return;
+    document.getElementById(`client-${selectedClientId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [selectedClientId, loading]);
+
+  const fetchData = async () => {
+    setLoading(true);
+    const { data: clientRows, error } = await supabase
+      .from("clients")
+      .select("id, name, email, phone, whatsapp, first_seen_at, last_contact_at")
+      .order("last_contact_at", { ascending: false });
+
+    if (error) {
+      console.error(error);
+      setClients([]);
+      setLoading(false);
+      return;
+    }
+    setClients(clientRows || []);
+
+    const { data: orderRows, error: ordersErr } = await supabase
+      .from("orders")
+      .select("id, client_id, requirement_text, price, actual_amount, status, created_at, completed_at")
+      .not("client_id", "is", null)
+      .order("created_at", { ascending: false });
+    if (ordersErr) console.error(ordersErr);
+    setOrders(orderRows || []);
+    setLoading(false);
+  };
+
+  const rowsView = useMemo(() => {
+    const byClient = new Map<string, ClientOrder[]>();
+    for (const o of orders) {
+      if (!o.client_id) continue;
+      if (!byClient.has(o.client_id)) byClient.set(o.client_id, []);
+      byClient.get(o.client_id)!.push(o);
+    }
+    const q = query.trim().toLowerCase();
+    return clients
+      .filter(
+        (c) =>
+          !q ||
+          c.name.toLowerCase().includes(q) ||
+          c.email?.includes(q) ||
+          c.phone?.includes(q) ||
+          c.whatsapp?.includes(q)
+      )
+      .map((c) => {
+        const clientOrders = byClient.get(c.id) ?? [];
+        return {
+          ...c,
+          orders: clientOrders,
+          lifetimeValue: clientOrders.reduce((sum, o) => sum + orderRevenue(o), 0),
+        };
+      });
+  }, [clients, orders, query]);
+
+  const repeatClients = useMemo(() => rowsView.filter((c) => c.orders.length > 1).length, [rowsView]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="glass-effect border-border/50 overflow-hidden">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Users className="h-4 w-4" />
+          {rowsView.length} client{rowsView.length !== 1 ? "s" : ""} · {repeatClients} repeat
+        </CardTitle>
+        <div className="relative w-64">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search name, email, phone"
+            className="pl-8 bg-input border-border"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rowsView.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No clients yet</p>
+        ) : (
+          <div className="relative overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 text-left">Client</th>
+                  <th className="py-2 pr-4 text-left">Contact</th>
+                  <th className="py-2 pr-4 text-left">Orders</th>
+                  <th className="py-2 pr-4 text-left">Lifetime Value</th>
+                  <th className="py-2 pr-4 text-left">Last Contact</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rowsView.map((c) => {
+                  const expanded = c.id === selectedClientId;
+                  return [
+                    <tr
+                      key={c.id}
+                      id={`client-${c.id}`}
+                      className={`border-b border-border/50 hover:bg-muted/10 transition-colors cursor-pointer ${
+                        expanded ? "bg-muted/20" : ""
+                      }`}
+                      onClick={() => navigate(expanded ? "/clients" : `/clients/${c.id}`)}
+                    >
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-2 font-medium">
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {c.name}
+                          {c.orders.length > 1 && <Badge variant="secondary">Repeat</Badge>}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4 text-muted-foreground">
+                        <div className="break-all">{c.email || "-"}</div>
+                        <div>{c.phone || c.whatsapp || "-"}</div>
+                      </td>
+                      <td className="py-2 pr-4">{c.orders.length}</td>
+                      <td className="py-2 pr-4 font-semibold">₹{c.lifetimeValue.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-muted-foreground">
+                        {c.last_contact_at ? new Date(c.last_contact_at).toLocaleDateString() : "-"}
+                      </td>
+                    </tr>,
+                    expanded && (
+                      <tr key={`${c.id}-orders`} className="border-b border-border/50">
+                        <td colSpan={5} className="py-3 pl-8 pr-4">
+                          {c.orders.length === 0 ? (
+                            <p className="text-muted-foreground">No orders linked</p>
+                          ) : (
+                            <table className="w-full text-sm">
+                              <tbody>
+                                {c.orders.map((o) => (
+                                  <tr key={o.id} className="border-b border-border/30 last:border-0">
+                                    <td className="py-1.5 pr-4 max-w-[360px]">
+                                      <div className="line-clamp-1">{o.requirement_text}</div>
+                                    </td>
+                                    <td className="py-1.5 pr-4">
+                                      <Badge className={statusBadgeClass(o.status)}>{statusLabel(o.status)}</Badge>
+                                    </td>
+                                    <td className="py-1.5 pr-4 font-semibold">
+                                      ₹{Number(o.actual_amount ?? o.price).toLocaleString()}
+                                    </td>
+                                    <td className="py-1.5 pr-4 text-muted-foreground">
+                                      {o.created_at ? new Date(o.created_at).toLocaleDateString() : "-"}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    ),
+                  ];
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
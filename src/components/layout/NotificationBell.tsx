@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  EDITOR_ONLY_TYPES,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationRow,
+  NotificationType,
+  fetchNotificationPreferences,
+  markNotificationsRead,
+  notificationPath,
+  setNotificationPreference,
+} from "@/lib/notifications";
+import { ArrowLeft, Bell, CheckCheck, Loader2, Settings2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface NotificationBellProps {
+  userId: string;
+  isAdmin: boolean;
+}
+
+// Most recent first; older ones stay in the table but are not listed
+const LIST_LIMIT = 30;
+
+// Header bell: unread count, recent notifications, and per-type preferences.
+// New notifications also pop up as a toast.
+export default function NotificationBell({ userId, isAdmin }: NotificationBellProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<NotificationRow[]>([]);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [preferences, setPreferences] = useState<Record<string, boolean>>({});
+
+  const fetchNotifications = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("notifications")
+      .select("id, type, title, body, order_id, read_at, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(LIST_LIMIT);
+    if (error) console.error(error);
+    setItems(data || []);
+    setLoading(false);
+  }, [userId]);
+
+  const markRead = useCallback(async (ids?: string[]) => {
+    const now = new Date().toISOString();
+    setItems((prev) => prev.map((n) => (!n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: now } : n)));
+    await markNotificationsRead(ids);
+  }, []);
+
+  const openNotification = useCallback((n: NotificationRow) => {
+    if (!n.read_at) markRead([n.id]);
+    setOpen(false);
+    navigate(notificationPath(n, isAdmin));
+  }, [markRead, navigate, isAdmin]);
+
+  useEffect(() => {
+    fetchNotifications();
+    fetchNotificationPreferences(userId).then(setPreferences);
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const row = payload.new as NotificationRow;
+          setItems((prev) => [row, ...prev.filter((n) => n.id !== row.id)].slice(0, LIST_LIMIT));
+          toast.info(row.title, {
+            description: row.body ?? undefined,
+            action: { label: "Open", onClick: () => openNotification(row) },
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchNotifications, openNotification]);
+
+  const togglePreference = async (type: NotificationType, enabled: boolean) => {
+    setPreferences((prev) => ({ ...prev, [type]: enabled }));
+    const { error } = await setNotificationPreference(userId, type, enabled);
+    if (error) {
+      toast.error(error);
+      setPreferences((prev) => ({ ...prev, [type]: !enabled }));
+    }
+  };
+
+  const unread = items.filter((n) => !n.read_at).length;
+  const types = NOTIFICATION_TYPES.filter((t) => !isAdmin || !EDITOR_ONLY_TYPES.includes(t));
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setShowPreferences(false);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-primary-foreground">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 glass-effect">
+        <div className="flex items-center justify-between border-b border-border/50 px-3 py-2">
+          {showPreferences ? (
+            <Button variant="ghost" size="sm" className="-ml-2 gap-1" onClick={() => setShowPreferences(false)}>
+              <ArrowLeft className="h-4 w-4" />
+              Preferences
+            </Button>
+          ) : (
+            <span className="text-sm font-medium">Notifications</span>
+          )}
+          {!showPreferences && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 px-2 text-xs"
+                onClick={() => markRead()}
+                disabled={unread === 0}
+              >
+                <CheckCheck className="h-3 w-3" />
+                Mark all read
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setShowPreferences(true)}
+                aria-label="Notification preferences"
+              >
+                <Settings2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {showPreferences ? (
+          <div className="space-y-3 p-3">
+            {types.map((t) => (
+              <div key={t} className="flex items-center justify-between gap-2">
+                <Label htmlFor={`pref-${t}`} className="text-sm font-normal">
+                  {NOTIFICATION_TYPE_LABELS[t]}
+                </Label>
+                <Switch
+                  id={`pref-${t}`}
+                  checked={preferences[t] ?? true}
+                  onCheckedChange={(checked) => togglePreference(t, checked)}
+                />
+              </div>
+            ))}
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {items.map((n) => (
+              <li key={n.id}>
+                <button
+                  type="button"
+                  onClick={() => openNotification(n)}
+                  className={`w-full border-b border-border/30 px-3 py-2 text-left text-sm hover:bg-muted/50 ${
+                    n.read_at ? "text-muted-foreground" : ""
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    {!n.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium">{n.title}</div>
+                      {n.body && <div className="line-clamp-2 text-xs text-muted-foreground">{n.body}</div>}
+                      <div className="mt-0.5 text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(n.created_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  BRIEFS_BUCKET,
+  BriefAttachment,
+  BriefFileAttachment,
+  attachmentDownloadUrl,
+  briefPreviewUrls,
+  faviconUrl,
+  formatFileSize,
+  linkHost,
+  previewKind,
+  removeBriefFile,
+  uploadBriefFile,
+  youtubeThumbnail,
+} from "@/lib/attachments";
+import { FileText, Loader2, Play, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface BriefAttachmentsProps {
+  orderId: string;
+  attachments: BriefAttachment[];
+  // Admins can add and remove brief files
+  canManage?: boolean;
+  onChanged?: () => void;
+}
+
+// The client's reference links and files as a grid of previews
+export default function BriefAttachments({ orderId, attachments, canManage = false, onChanged }: BriefAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // A string, so the preview effect only re-runs when the set of files changes
+  const pathsKey = attachments
+    .filter((a): a is BriefFileAttachment => a.type === "file")
+    .map((a) => a.path)
+    .join("|");
+
+  useEffect(() => {
+    let cancelled = false;
+    briefPreviewUrls(pathsKey ? pathsKey.split("|") : []).then((urls) => {
+      if (!cancelled) setPreviews(urls);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pathsKey]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    let uploaded = 0;
+    for (const file of Array.from(files)) {
+      const { error } = await uploadBriefFile(orderId, file);
+      if (error) {
+        toast.error(error);
+      } else {
+        uploaded++;
+      }
+    }
+    if (uploaded > 0) {
+      toast.success(uploaded === 1 ? "Brief file added" : `${uploaded} brief files added`);
+      onChanged?.();
+    }
+    if (inputRef.current) inputRef.current.value = "";
+    setUploading(false);
+  };
+
+  const handleOpenFile = async (attachment: BriefFileAttachment) => {
+    setBusy(attachment.path);
+    const url = await attachmentDownloadUrl(attachment, BRIEFS_BUCKET);
+    if (url) {
+      window.open(url, "_blank", "noopener,noreferrer");
+    } else {
+      toast.error("Failed to create a download link");
+    }
+    setBusy(null);
+  };
+
+  const handleRemove = async (attachment: BriefFileAttachment) => {
+    setBusy(attachment.path);
+    const { error } = await removeBriefFile(orderId, attachment);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Brief file removed");
+      onChanged?.();
+    }
+    setBusy(null);
+  };
+
+  const thumbnail = (a: BriefAttachment) => {
+    const src = a.type === "file" ? previews[a.path] : a.url;
+    const kind = a.type === "file" ? previewKind(a.name, a.content_type) : previewKind(a.url);
+    if (src && kind === "image") {
+      return <img src={src} alt="" loading="lazy" className="h-full w-full object-cover" />;
+    }
+    if (src && kind === "video") {
+      // #t= makes browsers render a frame instead of a black box
+      return <video src={`${src}#t=0.1`} preload="metadata" muted playsInline className="h-full w-full object-cover" />;
+    }
+    if (a.type === "link") {
+      const yt = youtubeThumbnail(a.url);
+      if (yt) {
+        return (
+          <div className="relative h-full w-full">
+            <img src={yt} alt="" loading="lazy" className="h-full w-full object-cover" />
+            <Play className="absolute inset-0 m-auto h-6 w-6 text-white drop-shadow" />
+          </div>
+        );
+      }
+      return <img src={faviconUrl(a.url)} alt="" loading="lazy" className="h-8 w-8" />;
+    }
+    return <FileText className="h-8 w-8 text-muted-foreground" />;
+  };
+
+  return (
+    <div className="space-y-2">
+      {attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No reference links or files</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {attachments.map((a) => {
+            const key = a.type === "file" ? a.path : a.url;
+            const tile = (
+              <>
+                <div className="flex h-20 items-center justify-center overflow-hidden rounded-t-md bg-muted/40">
+                  {busy === key ? <Loader2 className="h-5 w-5 animate-spin text-primary" /> : thumbnail(a)}
+                </div>
+                <div className="px-2 py-1 text-xs">
+                  <div className="truncate font-medium">{a.type === "file" ? a.name : linkHost(a.url)}</div>
+                  <div className="truncate text-muted-foreground">
+                    {a.type === "file" ? formatFileSize(a.size) || "File" : a.url}
+                  </div>
+                </div>
+              </>
+            );
+            return (
+              <div key={key} className="group relative rounded-md border border-border/50 hover:border-primary/50">
+                {a.type === "link" ? (
+                  <a href={a.url} target="_blank" rel="noopener noreferrer" className="block" title={a.url}>
+                    {tile}
+                  </a>
+                ) : (
+                  <button
+                    type="button"
+                    className="block w-full text-left"
+                    onClick={() => handleOpenFile(a)}
+                    disabled={busy === key}
+                    title={a.name}
+                  >
+                    {tile}
+                  </button>
+                )}
+                {canManage && a.type === "file" && (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="absolute right-1 top-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                    onClick={() => handleRemove(a)}
+                    disabled={busy === key}
+                    title="Remove"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canManage && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            className="gap-2"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading}
+          >
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            {uploading ? "Uploading..." : "Add brief files"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
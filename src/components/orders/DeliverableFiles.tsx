@@ -0,0 +1,128 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DeliverableAttachment,
+  attachmentDownloadUrl,
+  formatFileSize,
+  groupAttachmentVersions,
+  uploadAttachment,
+} from "@/lib/attachments";
+import { Download, FileText, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface DeliverableFilesProps {
+  orderId: string;
+  attachments: DeliverableAttachment[];
+  // The assigned editor can add files while the order is in progress
+  canUpload?: boolean;
+  onUploaded?: () => void;
+}
+
+// Deliverable files of an order, one row per file name with older versions listed under it
+export default function DeliverableFiles({ orderId, attachments, canUpload = false, onUploaded }: DeliverableFilesProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    let uploaded = 0;
+    // One at a time so each file gets its own version number
+    for (const file of Array.from(files)) {
+      const { error } = await uploadAttachment(orderId, file);
+      if (error) {
+        toast.error(error);
+      } else {
+        uploaded++;
+      }
+    }
+    if (uploaded > 0) {
+      toast.success(uploaded === 1 ? "File uploaded" : `${uploaded} files uploaded`);
+      onUploaded?.();
+    }
+    if (inputRef.current) inputRef.current.value = "";
+    setUploading(false);
+  };
+
+  const handleDownload = async (attachment: DeliverableAttachment) => {
+    setDownloading(attachment.path);
+    const url = await attachmentDownloadUrl(attachment);
+    if (url) {
+      window.open(url, "_blank", "noopener,noreferrer");
+    } else {
+      toast.error("Failed to create a download link");
+    }
+    setDownloading(null);
+  };
+
+  const groups = groupAttachmentVersions(attachments);
+
+  return (
+    <div className="space-y-2">
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No files uploaded</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {groups.map(({ name, versions }) => (
+            <li key={name} className="rounded-md border border-border/50 p-2 space-y-1">
+              {versions.map((a, i) => (
+                <div key={a.path} className={`flex items-center gap-2 ${i > 0 ? "pl-6 text-muted-foreground" : ""}`}>
+                  {i === 0 && <FileText className="h-4 w-4 shrink-0 text-primary" />}
+                  <span className="truncate">{i === 0 ? name : `v${a.version}`}</span>
+                  {i === 0 && versions.length > 1 && (
+                    <Badge variant="secondary" className="text-xs">
+                      v{a.version}
+                    </Badge>
+                  )}
+                  <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                    {formatFileSize(a.size)}
+                    {a.uploaded_at && ` · ${new Date(a.uploaded_at).toLocaleString()}`}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 shrink-0 p-0"
+                    onClick={() => handleDownload(a)}
+                    disabled={downloading === a.path}
+                    title="Download"
+                  >
+                    {downloading === a.path ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Download className="h-3 w-3" />
+                    )}
+                  </Button>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canUpload && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            className="gap-2"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading}
+          >
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            {uploading ? "Uploading..." : "Upload files"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDistanceToNow } from "date-fns";
+
+// Re-reads last_sync_at() so scheduled syncs show up without a reload
+const REFRESH_MS = 60 * 1000;
+
+// "Last synced x ago": the most recent successful sheet sync or pushed intake
+export default function LastSyncedAt() {
+  const [syncedAt, setSyncedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLastSync();
+    const timer = setInterval(fetchLastSync, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fetchLastSync = async () => {
+    const { data, error } = await supabase.rpc("last_sync_at");
+    if (error) {
+      console.error(error);
+      return;
+    }
+    setSyncedAt(data);
+  };
+
+  if (!syncedAt) return null;
+
+  return (
+    <p className="text-xs text-muted-foreground mt-1" title={new Date(syncedAt).toLocaleString()}>
+      Last synced {formatDistanceToNow(new Date(syncedAt), { addSuffix: true })}
+    </p>
+  );
+}
@@ -6,7 +6,43 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Calendar, DollarSign, Loader2, Package, CheckCircle2, LogOut, XCircle, RefreshCw } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import OrderContactDetails from "@/components/orders/OrderContactDetails";
+import OrderRounds from "@/components/orders/OrderRounds";
+import OrderComments from "@/components/orders/OrderComments";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useUnreadComments } from "@/hooks/use-unread-comments";
+import type { UnreadCount } from "@/lib/comments";
+import DeliverableFiles from "@/components/orders/DeliverableFiles";
+import BriefAttachments from "@/components/orders/BriefAttachments";
+import { briefsOf, deliverablesOf } from "@/lib/attachments";
+import type { Json } from "@/integrations/supabase/types";
+import { statusBadgeClass, statusLabel } from "@/lib/orders";
+import { failOrder, submitOrder, releaseOrder, touchOrder } from "@/lib/orderActions";
+import {
+  AlertTriangle,
+  Calendar,
+  DollarSign,
+  Loader2,
+  Package,
+  CheckCircle2,
+  LogOut,
+  XCircle,
+  RefreshCw,
+  Send,
+  MessageSquareWarning,
+  MessageSquare,
+} from "lucide-react";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 
@@ -20,6 +56,11 @@ interface Order {
   taken_at: string | null;
   completed_at: string | null;
   deliverable_link: string | null;
+  attachments: Json;
+  stale_warned_at: string | null;
+  submitted_at: string | null;
+  review_comments: string | null;
+  revision_count: number;
   created_at: string;
 }
 
@@ -27,24 +68,311 @@ interface MyOrdersListProps {
   userId: string;
 }
 
+// The editor's unsent submission for one order
+interface SubmissionDraft {
+  deliverableLink: string;
+  actualAmount: string;
+  feedback: string;
+}
+
+interface OrderCardProps {
+  order: Order;
+  showComplete?: boolean;
+  unread?: UnreadCount;
+  draft: SubmissionDraft;
+  submitting: boolean;
+  leaving: boolean;
+  failing: boolean;
+  touching: boolean;
+  onDraftChange: (orderId: string, field: keyof SubmissionDraft, value: string) => void;
+  onSubmit: (orderId: string) => void;
+  onExit: (orderId: string, kind: "leave" | "fail") => void;
+  onStillWorking: (orderId: string) => void;
+  onOpenThread: (order: Order) => void;
+}
+
+// Defined at module level so the fetching children (contacts, files, rounds) keep their state
+// while the list re-renders
+const OrderCard = ({
+  order,
+  showComplete = false,
+  unread,
+  draft,
+  submitting,
+  leaving,
+  failing,
+  touching,
+  onDraftChange,
+  onSubmit,
+  onExit,
+  onStillWorking,
+  onOpenThread,
+}: OrderCardProps) => (
+  <Card className="glass-effect border-border/50">
+    <CardHeader>
+      <div className="flex items-start justify-between">
+        <div className="space-y-1 flex-1">
+          <CardTitle className="text-xl">{order.client_name}</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Taken {formatDistanceToNow(new Date(order.taken_at!), { addSuffix: true })}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <Badge variant="secondary" className={statusBadgeClass(order.status)}>
+            {order.status === "completed" ? "Completed" : statusLabel(order.status)}
+          </Badge>
+          {order.revision_count > 0 && <Badge variant="outline">Revision {order.revision_count}</Badge>}
+          <Button variant="ghost" size="sm" className="h-7 gap-1 px-2" onClick={() => onOpenThread(order)}>
+            <MessageSquare className="h-4 w-4" />
+            Messages
+            {unread && unread.unread > 0 && (
+              <Badge
+                className={
+                  unread.mentioned
+                    ? "bg-warning/10 text-warning border-warning/20"
+                    : "bg-primary/10 text-primary border-primary/20"
+                }
+              >
+                {unread.unread}
+              </Badge>
+            )}
+          </Button>
+        </div>
+      </div>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <p className="text-sm text-muted-foreground">{order.requirement_text}</p>
+
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center text-primary">
+          <DollarSign className="h-4 w-4 mr-1" />
+          <span className="font-semibold">₹{order.price.toLocaleString()}</span>
+        </div>
+        {order.due_date && (
+          <div className="flex items-center text-muted-foreground">
+            <Calendar className="h-4 w-4 mr-1" />
+            <span>{new Date(order.due_date).toLocaleDateString()}</span>
+          </div>
+        )}
+      </div>
+
+      {order.status === "taken" && order.review_comments && (
+        <div className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm">
+          <div className="flex items-center gap-2 text-destructive font-medium">
+            <MessageSquareWarning className="h-4 w-4" />
+            Changes requested
+          </div>
+          <p className="mt-1 text-muted-foreground whitespace-pre-wrap">{order.review_comments}</p>
+        </div>
+      )}
+
+      {order.status === "in_review" && (
+        <p className="text-sm text-muted-foreground">
+          Submitted {order.submitted_at ? formatDistanceToNow(new Date(order.submitted_at), { addSuffix: true }) : ""}.
+          Waiting for an admin to approve it.
+        </p>
+      )}
+
+      {order.status === "taken" && order.stale_warned_at && (
+        <div className="flex flex-col gap-2 rounded-md border border-warning/30 bg-warning/10 p-3 text-sm">
+          <div className="flex items-center gap-2 text-warning">
+            <AlertTriangle className="h-4 w-4" />
+            <span>No activity on this order for a while. It will be released back to the queue soon.</span>
+          </div>
+          <Button
+            size="sm"
+            variant="secondary"
+            className="self-start"
+            onClick={() => onStillWorking(order.id)}
+            disabled={touching}
+          >
+            {touching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Still working
+          </Button>
+        </div>
+      )}
+
+      {order.status === "taken" && (
+        <div className="pt-2 border-t border-border">
+          <OrderContactDetails orderId={order.id} />
+        </div>
+      )}
+
+      {order.status === "taken" && briefsOf(order.attachments).length > 0 && (
+        <div className="pt-2 border-t border-border space-y-2">
+          <Label className="text-sm text-muted-foreground">References</Label>
+          <BriefAttachments orderId={order.id} attachments={briefsOf(order.attachments)} />
+        </div>
+      )}
+
+      {showComplete && (
+        <div className="space-y-3 pt-2 border-t border-border">
+          <div className="space-y-2">
+            <Label className="text-sm">Files</Label>
+            <DeliverableFiles
+              orderId={order.id}
+              attachments={deliverablesOf(order.attachments)}
+              canUpload
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`deliverable-${order.id}`} className="text-sm">
+              Deliverable Link (Optional)
+            </Label>
+            <Input
+              id={`deliverable-${order.id}`}
+              type="url"
+              placeholder="https://drive.google.com/..."
+              value={draft.deliverableLink}
+              onChange={(e) => onDraftChange(order.id, "deliverableLink", e.target.value)}
+              className="bg-input border-border"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor={`amount-${order.id}`} className="text-sm">
+                Actual Amount Received (₹)
+              </Label>
+              <Input
+                id={`amount-${order.id}`}
+                type="number"
+                min="0"
+                step="1"
+                placeholder="e.g. 900"
+                value={draft.actualAmount}
+                onChange={(e) => onDraftChange(order.id, "actualAmount", e.target.value)}
+                className="bg-input border-border"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`feedback-${order.id}`} className="text-sm">
+                Feedback (Optional)
+              </Label>
+              <Input
+                id={`feedback-${order.id}`}
+                type="text"
+                placeholder="Client notes, issues, etc."
+                value={draft.feedback}
+                onChange={(e) => onDraftChange(order.id, "feedback", e.target.value)}
+                className="bg-input border-border"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Button
+              className="w-full bg-success hover:bg-success/90 transition-all"
+              onClick={() => onSubmit(order.id)}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Submit
+                </>
+              )}
+            </Button>
+            <Button
+              variant="secondary"
+              className="w-full"
+              onClick={() => onExit(order.id, "leave")}
+              disabled={leaving}
+            >
+              {leaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Leaving...
+                </>
+              ) : (
+                <>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Leave it
+                </>
+              )}
+            </Button>
+            <Button
+              variant="destructive"
+              className="w-full"
+              onClick={() => onExit(order.id, "fail")}
+              disabled={failing}
+            >
+              {failing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Failing...
+                </>
+              ) : (
+                <>
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Failed
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(order.status === "completed" || order.status === "in_review") && order.deliverable_link && (
+        <div className="pt-2 border-t border-border">
+          <Label className="text-sm text-muted-foreground">Deliverable:</Label>
+          <a
+            href={order.deliverable_link}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-primary hover:underline break-all"
+          >
+            {order.deliverable_link}
+          </a>
+        </div>
+      )}
+
+      {(order.status === "completed" || order.status === "in_review") &&
+        deliverablesOf(order.attachments).length > 0 && (
+          <div className="pt-2 border-t border-border space-y-2">
+            <Label className="text-sm text-muted-foreground">Files:</Label>
+            <DeliverableFiles orderId={order.id} attachments={deliverablesOf(order.attachments)} />
+          </div>
+        )}
+
+      {order.revision_count > 0 && (
+        <div className="pt-2 border-t border-border space-y-2">
+          <Label className="text-sm text-muted-foreground">Revision history</Label>
+          <OrderRounds orderId={order.id} revisionCount={order.revision_count} />
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
 const MyOrdersList = ({ userId }: MyOrdersListProps) => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
-  const [completingOrder, setCompletingOrder] = useState<string | null>(null);
+  const [submittingOrder, setSubmittingOrder] = useState<string | null>(null);
   const [leavingOrder, setLeavingOrder] = useState<string | null>(null);
   const [failingOrder, setFailingOrder] = useState<string | null>(null);
+  const [touchingOrder, setTouchingOrder] = useState<string | null>(null);
   const [deliverableLinks, setDeliverableLinks] = useState<Record<string, string>>({});
   const [actualAmounts, setActualAmounts] = useState<Record<string, string>>({});
   const [feedbacks, setFeedbacks] = useState<Record<string, string>>({});
+  // Leave / fail confirmation, with an optional reason for the audit log
+  const [pendingExit, setPendingExit] = useState<{ orderId: string; kind: "leave" | "fail" } | null>(null);
+  const [exitReason, setExitReason] = useState("");
   const [refreshing, setRefreshing] = useState(false);
+  const [threadOrder, setThreadOrder] = useState<Order | null>(null);
+  const { counts: unreadComments, refresh: refreshUnread } = useUnreadComments(orders.map((o) => o.id));
 
   useEffect(() => {
     fetchOrders();
     subscribeToOrders();
   }, [userId]);
 
+  // Only the first load shows the spinner; realtime refetches swap the rows in place, so the
+  // cards (keyed by order id) keep their children and unsent drafts
   const fetchOrders = async () => {
-    setLoading(true);
     const { data, error } = await supabase
       .from("orders")
       .select("*")
@@ -91,38 +419,25 @@ const MyOrdersList = ({ userId }: MyOrdersListProps) => {
     }
   };
 
-  const handleCompleteOrder = async (orderId: string) => {
-    setCompletingOrder(orderId);
+  const handleSubmitOrder = async (orderId: string) => {
+    const deliverableLink = deliverableLinks[orderId]?.trim();
+    if (deliverableLink && !/^https?:\/\/[^\s/]+\.\S+$/i.test(deliverableLink)) {
+      toast.error("The deliverable link must be a full http(s) URL");
+      return;
+    }
+
+    setSubmittingOrder(orderId);
 
-    const deliverableLink = deliverableLinks[orderId];
     const actualAmountRaw = actualAmounts[orderId];
     const feedback = feedbacks[orderId];
     const actualAmount = actualAmountRaw ? Number(actualAmountRaw) : null;
 
-    const { error } = await supabase
-      .from("orders")
-      .update({
-        status: "completed",
-        completed_at: new Date().toISOString(),
-        deliverable_link: deliverableLink || null,
-        actual_amount: actualAmount,
-        editor_feedback: feedback || null,
-      })
-      .eq("id", orderId)
-      .eq("taken_by", userId);
+    const { error } = await submitOrder(orderId, { deliverableLink, actualAmount, feedback });
 
     if (error) {
-      toast.error("Failed to complete order");
-      console.error(error);
+      toast.error(error);
     } else {
-      // Create assignment audit log
-      await supabase.from("assignments").insert({
-        order_id: orderId,
-        user_id: userId,
-        action: "completed",
-      });
-
-      toast.success("Order marked as completed!");
+      toast.success("Submitted for review");
       setDeliverableLinks((prev) => {
         const updated = { ...prev };
         delete updated[orderId];
@@ -140,55 +455,70 @@ const MyOrdersList = ({ userId }: MyOrdersListProps) => {
       });
     }
 
-    setCompletingOrder(null);
+    setSubmittingOrder(null);
   };
 
-  const handleLeaveOrder = async (orderId: string) => {
+  const handleLeaveOrder = async (orderId: string, reason: string) => {
     setLeavingOrder(orderId);
-    const { error } = await supabase
-      .from("orders")
-      .update({
-        status: "available",
-        taken_by: null,
-        taken_at: null,
-      })
-      .eq("id", orderId)
-      .eq("taken_by", userId);
+    const { error } = await releaseOrder(orderId, reason);
 
     if (error) {
-      toast.error("Failed to leave order");
-      console.error(error);
+      toast.error(error);
     } else {
       toast.success("Order released back to available");
+      // The row no longer matches the taken_by realtime filter
+      fetchOrders();
     }
     setLeavingOrder(null);
   };
 
-  const handleFailOrder = async (orderId: string) => {
+  const handleFailOrder = async (orderId: string, reason: string) => {
     setFailingOrder(orderId);
-    const { error } = await supabase
-      .from("orders")
-      .update({
-        status: "completed",
-        completed_at: new Date().toISOString(),
-        deliverable_link: "FAILED",
-      })
-      .eq("id", orderId)
-      .eq("taken_by", userId);
+    const { error } = await failOrder(orderId, reason);
 
     if (error) {
-      toast.error("Failed to mark order as failed");
-      console.error(error);
+      toast.error(error);
     } else {
       toast.success("Order marked as failed");
     }
     setFailingOrder(null);
   };
 
+  const handleStillWorking = async (orderId: string) => {
+    setTouchingOrder(orderId);
+    const { error } = await touchOrder(orderId);
+
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success("Thanks! The order stays with you");
+    }
+    setTouchingOrder(null);
+  };
+
+  const handleDraftChange = (orderId: string, field: keyof SubmissionDraft, value: string) => {
+    const setDraft = { deliverableLink: setDeliverableLinks, actualAmount: setActualAmounts, feedback: setFeedbacks }[field];
+    setDraft((prev) => ({ ...prev, [orderId]: value }));
+  };
+
+  const openExitDialog = (orderId: string, kind: "leave" | "fail") => {
+    setExitReason("");
+    setPendingExit({ orderId, kind });
+  };
+
+  const handleConfirmExit = () => {
+    if (!pendingExit) return;
+    if (pendingExit.kind === "leave") {
+      handleLeaveOrder(pendingExit.orderId, exitReason);
+    } else {
+      handleFailOrder(pendingExit.orderId, exitReason);
+    }
+    setPendingExit(null);
+  };
+
   const takenOrders = orders.filter((order) => order.status === "taken");
-  const completedOrders = orders.filter(
-    (order) => order.status === "completed" && order.deliverable_link !== "FAILED"
-  );
+  const inReviewOrders = orders.filter((order) => order.status === "in_review");
+  const completedOrders = orders.filter((order) => order.status === "completed");
 
   if (loading) {
     return (
@@ -198,185 +528,38 @@ const MyOrdersList = ({ userId }: MyOrdersListProps) => {
     );
   }
 
-  const OrderCard = ({ order, showComplete = false }: { order: Order; showComplete?: boolean }) => (
-    <Card className="glass-effect border-border/50">
-      <CardHeader>
-        <div className="flex items-start justify-between">
-          <div className="space-y-1 flex-1">
-            <CardTitle className="text-xl">{order.client_name}</CardTitle>
-            <p className="text-sm text-muted-foreground">
-              Taken {formatDistanceToNow(new Date(order.taken_at!), { addSuffix: true })}
-            </p>
-          </div>
-          <Badge
-            variant="secondary"
-            className={
-              order.status === "completed"
-                ? "bg-success/10 text-success border-success/20"
-                : "bg-warning/10 text-warning border-warning/20"
-            }
-          >
-            {order.status === "completed" ? "Completed" : "In Progress"}
-          </Badge>
-        </div>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <p className="text-sm text-muted-foreground">{order.requirement_text}</p>
-
-        <div className="flex items-center justify-between text-sm">
-          <div className="flex items-center text-primary">
-            <DollarSign className="h-4 w-4 mr-1" />
-            <span className="font-semibold">₹{order.price.toLocaleString()}</span>
-          </div>
-          {order.due_date && (
-            <div className="flex items-center text-muted-foreground">
-              <Calendar className="h-4 w-4 mr-1" />
-              <span>{new Date(order.due_date).toLocaleDateString()}</span>
-            </div>
-          )}
-        </div>
-
-        {showComplete && (
-          <div className="space-y-3 pt-2 border-t border-border">
-            <div className="space-y-2">
-              <Label htmlFor={`deliverable-${order.id}`} className="text-sm">
-                Deliverable Link (Optional)
-              </Label>
-              <Input
-                id={`deliverable-${order.id}`}
-                type="url"
-                placeholder="https://drive.google.com/..."
-                value={deliverableLinks[order.id] || ""}
-                onChange={(e) =>
-                  setDeliverableLinks((prev) => ({
-                    ...prev,
-                    [order.id]: e.target.value,
-                  }))
-                }
-                className="bg-input border-border"
-              />
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              <div className="space-y-2">
-                <Label htmlFor={`amount-${order.id}`} className="text-sm">
-                  Actual Amount Received (₹)
-                </Label>
-                <Input
-                  id={`amount-${order.id}`}
-                  type="number"
-                  min="0"
-                  step="1"
-                  placeholder="e.g. 900"
-                  value={actualAmounts[order.id] || ""}
-                  onChange={(e) =>
-                    setActualAmounts((prev) => ({
-                      ...prev,
-                      [order.id]: e.target.value,
-                    }))
-                  }
-                  className="bg-input border-border"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor={`feedback-${order.id}`} className="text-sm">
-                  Feedback (Optional)
-                </Label>
-                <Input
-                  id={`feedback-${order.id}`}
-                  type="text"
-                  placeholder="Client notes, issues, etc."
-                  value={feedbacks[order.id] || ""}
-                  onChange={(e) =>
-                    setFeedbacks((prev) => ({
-                      ...prev,
-                      [order.id]: e.target.value,
-                    }))
-                  }
-                  className="bg-input border-border"
-                />
-              </div>
-            </div>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-              <Button
-                className="w-full bg-success hover:bg-success/90 transition-all"
-                onClick={() => handleCompleteOrder(order.id)}
-                disabled={completingOrder === order.id}
-              >
-                {completingOrder === order.id ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Completing...
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle2 className="mr-2 h-4 w-4" />
-                    Complete
-                  </>
-                )}
-              </Button>
-              <Button
-                variant="secondary"
-                className="w-full"
-                onClick={() => handleLeaveOrder(order.id)}
-                disabled={leavingOrder === order.id}
-              >
-                {leavingOrder === order.id ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Leaving...
-                  </>
-                ) : (
-                  <>
-                    <LogOut className="mr-2 h-4 w-4" />
-                    Leave it
-                  </>
-                )}
-              </Button>
-              <Button
-                variant="destructive"
-                className="w-full"
-                onClick={() => handleFailOrder(order.id)}
-                disabled={failingOrder === order.id}
-              >
-                {failingOrder === order.id ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Failing...
-                  </>
-                ) : (
-                  <>
-                    <XCircle className="mr-2 h-4 w-4" />
-                    Failed
-                  </>
-                )}
-              </Button>
-            </div>
-          </div>
-        )}
-
-        {order.status === "completed" && order.deliverable_link && (
-          <div className="pt-2 border-t border-border">
-            <Label className="text-sm text-muted-foreground">Deliverable:</Label>
-            <a
-              href={order.deliverable_link}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm text-primary hover:underline break-all"
-            >
-              {order.deliverable_link}
-            </a>
-          </div>
-        )}
-      </CardContent>
-    </Card>
+  const renderOrderCard = (order: Order, showComplete = false) => (
+    <OrderCard
+      key={order.id}
+      order={order}
+      showComplete={showComplete}
+      unread={unreadComments[order.id]}
+      draft={{
+        deliverableLink: deliverableLinks[order.id] || "",
+        actualAmount: actualAmounts[order.id] || "",
+        feedback: feedbacks[order.id] || "",
+      }}
+      submitting={submittingOrder === order.id}
+      leaving={leavingOrder === order.id}
+      failing={failingOrder === order.id}
+      touching={touchingOrder === order.id}
+      onDraftChange={handleDraftChange}
+      onSubmit={handleSubmitOrder}
+      onExit={openExitDialog}
+      onStillWorking={handleStillWorking}
+      onOpenThread={setThreadOrder}
+    />
   );
 
   return (
     <Tabs defaultValue="taken" className="w-full">
-      <TabsList className="grid w-full max-w-md grid-cols-2 bg-muted/50">
+      <TabsList className="grid w-full max-w-lg grid-cols-3 bg-muted/50">
         <TabsTrigger value="taken">
           In Progress ({takenOrders.length})
         </TabsTrigger>
+        <TabsTrigger value="in_review">
+          In Review ({inReviewOrders.length})
+        </TabsTrigger>
         <TabsTrigger value="completed">
           Completed ({completedOrders.length})
         </TabsTrigger>
@@ -400,9 +583,24 @@ const MyOrdersList = ({ userId }: MyOrdersListProps) => {
           </Card>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {takenOrders.map((order) => (
-              <OrderCard key={order.id} order={order} showComplete />
-            ))}
+            {takenOrders.map((order) => renderOrderCard(order, true))}
+          </div>
+        )}
+      </TabsContent>
+
+      <TabsContent value="in_review" className="mt-6">
+        {inReviewOrders.length === 0 ? (
+          <Card className="glass-effect border-border/50">
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Send className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground text-center">
+                Nothing waiting for review
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {inReviewOrders.map((order) => renderOrderCard(order))}
           </div>
         )}
       </TabsContent>
@@ -419,12 +617,53 @@ const MyOrdersList = ({ userId }: MyOrdersListProps) => {
           </Card>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {completedOrders.map((order) => (
-              <OrderCard key={order.id} order={order} />
-            ))}
+            {completedOrders.map((order) => renderOrderCard(order))}
           </div>
         )}
       </TabsContent>
+
+      <AlertDialog open={pendingExit !== null} onOpenChange={(open) => !open && setPendingExit(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingExit?.kind === "fail" ? "Mark this order as failed?" : "Leave this order?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingExit?.kind === "fail"
+                ? "The order will be closed as failed. An admin can reopen it later."
+                : "The order goes back to the available pool for other editors."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="exit-reason" className="text-sm">
+              Reason (Optional)
+            </Label>
+            <Textarea
+              id="exit-reason"
+              value={exitReason}
+              onChange={(e) => setExitReason(e.target.value)}
+              placeholder={pendingExit?.kind === "fail" ? "What went wrong?" : "Why are you leaving it?"}
+              className="bg-input border-border"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmExit}>
+              {pendingExit?.kind === "fail" ? "Mark as failed" : "Leave it"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={threadOrder !== null} onOpenChange={(open) => !open && setThreadOrder(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Messages</DialogTitle>
+            <DialogDescription>{threadOrder?.client_name}: questions and updates between you and the admins</DialogDescription>
+          </DialogHeader>
+          {threadOrder && <OrderComments orderId={threadOrder.id} onRead={refreshUnread} />}
+        </DialogContent>
+      </Dialog>
     </Tabs>
   );
 };
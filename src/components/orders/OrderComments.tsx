@@ -0,0 +1,255 @@
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ThreadParticipant,
+  extractMentions,
+  fetchThreadParticipants,
+  markCommentsRead,
+  mentionToken,
+  postComment,
+} from "@/lib/comments";
+import { Loader2, Send } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface CommentRow {
+  id: string;
+  author_id: string | null;
+  body: string;
+  mentions: string[];
+  created_at: string;
+}
+
+interface OrderCommentsProps {
+  orderId: string;
+  // Called after the thread is marked read so unread badges can refresh
+  onRead?: () => void;
+}
+
+// The "@word" being typed just before the cursor, if any
+function mentionQuery(text: string, cursor: number): { start: number; query: string } | null {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { start: cursor - match[1].length - 1, query: match[1] };
+}
+
+// Comment thread between the assigned editor and admins, updated over realtime
+export default function OrderComments({ orderId, onRead }: OrderCommentsProps) {
+  const [loading, setLoading] = useState(true);
+  const [comments, setComments] = useState<CommentRow[]>([]);
+  const [participants, setParticipants] = useState<ThreadParticipant[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [userId, setUserId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [cursor, setCursor] = useState(0);
+  const [sending, setSending] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const markRead = useCallback(async () => {
+    await markCommentsRead(orderId);
+    onRead?.();
+  }, [orderId, onRead]);
+
+  const fetchThread = useCallback(async () => {
+    const [{ data, error }, people] = await Promise.all([
+      supabase
+        .from("order_comments")
+        .select("id, author_id, body, mentions, created_at")
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: true }),
+      fetchThreadParticipants(orderId),
+    ]);
+    if (error) console.error(error);
+    setComments(data || []);
+    setParticipants(people);
+    setNames((prev) => ({ ...prev, ...Object.fromEntries(people.map((p) => [p.id, p.name])) }));
+    setLoading(false);
+    markRead();
+  }, [orderId, markRead]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+    fetchThread();
+
+    const channel = supabase
+      .channel(`order-comments-${orderId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "order_comments", filter: `order_id=eq.${orderId}` },
+        (payload) => {
+          const row = payload.new as CommentRow;
+          setComments((prev) => (prev.some((c) => c.id === row.id) ? prev : [...prev, row]));
+          markRead();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId, fetchThread, markRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [comments.length]);
+
+  // Authors who are no longer participants (e.g. a previous assignee) still need a name
+  useEffect(() => {
+    const missing = Array.from(
+      new Set(comments.map((c) => c.author_id).filter((id): id is string => Boolean(id) && !names[id as string]))
+    );
+    if (missing.length === 0) return;
+    supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("id", missing)
+      .then(({ data }) => {
+        const map: Record<string, string> = {};
+        (data || []).forEach((p) => (map[p.id] = p.full_name || p.email));
+        // Authors without a profile stay missing; only a real addition runs this again
+        if (Object.keys(map).length > 0) setNames((prev) => ({ ...prev, ...map }));
+      });
+  }, [comments, names]);
+
+  const handleSend = async () => {
+    if (!userId || !draft.trim()) return;
+    setSending(true);
+    const { error } = await postComment(orderId, userId, draft, extractMentions(draft, participants));
+    if (error) {
+      toast.error(error);
+    } else {
+      setDraft("");
+      setCursor(0);
+    }
+    setSending(false);
+  };
+
+  const insertMention = (participant: ThreadParticipant) => {
+    const q = mentionQuery(draft, cursor);
+    if (!q) return;
+    const token = `${mentionToken(participant)} `;
+    const next = draft.slice(0, q.start) + token + draft.slice(cursor);
+    const nextCursor = q.start + token.length;
+    setDraft(next);
+    setCursor(nextCursor);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  // Highlight @Name tokens of known people
+  const renderBody = (body: string) => {
+    const tokens = Object.values(names)
+      .map((n) => `@${n}`)
+      .sort((a, b) => b.length - a.length);
+    if (tokens.length === 0) return body;
+    const escaped = tokens.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const parts = body.split(new RegExp(`(${escaped.join("|")})`, "g"));
+    return parts.map((part, i) =>
+      tokens.includes(part) ? (
+        <span key={i} className="font-medium text-primary">
+          {part}
+        </span>
+      ) : (
+        <Fragment key={i}>{part}</Fragment>
+      )
+    );
+  };
+
+  const query = mentionQuery(draft, cursor);
+  const suggestions = query
+    ? participants
+        .filter((p) => p.id !== userId && p.name.toLowerCase().includes(query.query.toLowerCase()))
+        .slice(0, 5)
+    : [];
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-72 overflow-y-auto space-y-3 pr-1">
+        {comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No messages yet. Ask about the brief here.</p>
+        ) : (
+          comments.map((c) => {
+            const mine = c.author_id === userId;
+            const mentionsMe = userId !== null && c.mentions.includes(userId);
+            return (
+              <div key={c.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+                <div
+                  className={`max-w-[85%] rounded-md border px-3 py-2 text-sm ${
+                    mine
+                      ? "bg-primary/10 border-primary/20"
+                      : mentionsMe
+                        ? "bg-warning/10 border-warning/20"
+                        : "bg-muted/40 border-border/50"
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium">
+                      {mine ? "You" : c.author_id ? names[c.author_id] || "Unknown user" : "Deleted user"}
+                    </span>
+                    <span>{formatDistanceToNow(new Date(c.created_at), { addSuffix: true })}</span>
+                  </div>
+                  <p className="mt-1 whitespace-pre-wrap break-words">{renderBody(c.body)}</p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="relative">
+        {suggestions.length > 0 && (
+          <ul className="absolute bottom-full left-0 z-10 mb-1 w-64 rounded-md border border-border bg-popover p-1 text-sm shadow-md">
+            {suggestions.map((p) => (
+              <li key={p.id}>
+                <button
+                  type="button"
+                  className="w-full rounded px-2 py-1 text-left hover:bg-muted"
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    insertMention(p);
+                  }}
+                >
+                  {p.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <Textarea
+            ref={textareaRef}
+            rows={2}
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setCursor(e.target.selectionStart ?? e.target.value.length);
+            }}
+            onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                if (suggestions.length > 0) insertMention(suggestions[0]);
+                else handleSend();
+              }
+            }}
+            placeholder="Write a message. Use @ to mention someone."
+            className="bg-input border-border"
+          />
+          <Button onClick={handleSend} disabled={sending || !draft.trim() || !userId} className="self-end">
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
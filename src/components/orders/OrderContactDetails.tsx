@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Loader2 } from "lucide-react";
+
+interface Contact {
+  email: string | null;
+  phone: string | null;
+  whatsapp: string | null;
+}
+
+interface OrderContactDetailsProps {
+  orderId: string;
+}
+
+// Contact rows are only returned to the assigned editor and admins (RLS on order_contacts)
+export default function OrderContactDetails({ orderId }: OrderContactDetailsProps) {
+  const [loading, setLoading] = useState(true);
+  const [contact, setContact] = useState<Contact | null>(null);
+
+  const fetchContact = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("order_contacts")
+      .select("email, phone, whatsapp")
+      .eq("order_id", orderId)
+      .maybeSingle();
+    if (error) console.error(error);
+    setContact(data ?? null);
+    setLoading(false);
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchContact();
+  }, [fetchContact]);
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  if (!contact) {
+    return <p className="text-sm text-muted-foreground">No contact details on file</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="text-muted-foreground">Email</div>
+        <div className="col-span-2 break-all">
+          {contact.email ? (
+            <a href={`mailto:${contact.email}`} className="text-primary hover:underline">
+              {contact.email}
+            </a>
+          ) : (
+            "-"
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="text-muted-foreground">Phone</div>
+        <div className="col-span-2">
+          {contact.phone ? (
+            <a href={`tel:${contact.phone}`} className="text-primary hover:underline">
+              {contact.phone}
+            </a>
+          ) : (
+            "-"
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="text-muted-foreground">WhatsApp</div>
+        <div className="col-span-2">
+          {contact.whatsapp ? (
+            <a
+              href={`https://wa.me/${contact.whatsapp.replace(/\D/g, "")}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              {contact.whatsapp}
+            </a>
+          ) : (
+            "-"
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Loader2 } from "lucide-react";
+
+interface RoundRow {
+  id: string;
+  round: number;
+  notes: string | null;
+  requested_at: string | null;
+  deliverable_link: string | null;
+  actual_amount: number | null;
+  editor_feedback: string | null;
+  submitted_at: string | null;
+}
+
+interface OrderRoundsProps {
+  orderId: string;
+  // Refetch when the order's revision count changes
+  revisionCount: number;
+}
+
+// Every delivery round of an order, oldest first. Visible to the assigned editor and admins.
+export default function OrderRounds({ orderId, revisionCount }: OrderRoundsProps) {
+  const [loading, setLoading] = useState(true);
+  const [rounds, setRounds] = useState<RoundRow[]>([]);
+
+  const fetchRounds = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("order_rounds")
+      .select("id, round, notes, requested_at, deliverable_link, actual_amount, editor_feedback, submitted_at")
+      .eq("order_id", orderId)
+      .order("round", { ascending: true });
+    if (error) console.error(error);
+    setRounds(data || []);
+    setLoading(false);
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchRounds();
+  }, [fetchRounds, revisionCount]);
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  if (rounds.length === 0) {
+    return <p className="text-sm text-muted-foreground">No deliveries yet</p>;
+  }
+
+  return (
+    <ol className="space-y-3 text-sm">
+      {rounds.map((r) => (
+        <li key={r.id} className="rounded-md border border-border/50 p-3 space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{r.round === 0 ? "Original delivery" : `Revision ${r.round}`}</span>
+            <span className="text-xs text-muted-foreground">
+              {r.submitted_at ? new Date(r.submitted_at).toLocaleString() : "Not delivered yet"}
+            </span>
+          </div>
+          {r.notes && <p className="text-muted-foreground whitespace-pre-wrap">Requested: {r.notes}</p>}
+          {r.deliverable_link && (
+            <a
+              href={r.deliverable_link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-primary hover:underline break-all"
+            >
+              {r.deliverable_link}
+            </a>
+          )}
+          {r.editor_feedback && <p className="text-muted-foreground">Feedback: {r.editor_feedback}</p>}
+          {r.actual_amount !== null && (
+            <p className="text-muted-foreground">Amount: ₹{Number(r.actual_amount).toLocaleString()}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
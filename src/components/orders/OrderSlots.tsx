@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardList } from "lucide-react";
+
+interface OrderSlotsProps {
+  userId: string;
+}
+
+// "x of N slots used" for the signed-in editor. take_order enforces the same limit.
+export default function OrderSlots({ userId }: OrderSlotsProps) {
+  const [active, setActive] = useState<number | null>(null);
+  const [limit, setLimit] = useState<number | null>(null);
+
+  const fetchSlots = useCallback(async () => {
+    const [{ data: used, error: usedErr }, { data: cap, error: capErr }] = await Promise.all([
+      supabase.rpc("editor_active_order_count", { _user_id: userId }),
+      supabase.rpc("editor_order_limit", { _user_id: userId }),
+    ]);
+    if (usedErr || capErr) {
+      console.error(usedErr || capErr);
+      return;
+    }
+    setActive(used);
+    setLimit(cap);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchSlots();
+
+    const channel = supabase
+      .channel("order-slots-changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "orders" }, () => fetchSlots())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchSlots]);
+
+  if (active === null || limit === null) return null;
+
+  const full = active >= limit;
+  return (
+    <Badge
+      variant="secondary"
+      className={
+        full
+          ? "gap-1 bg-destructive/10 text-destructive border-destructive/20"
+          : "gap-1 bg-primary/10 text-primary border-primary/20"
+      }
+    >
+      <ClipboardList className="h-3 w-3" />
+      {active} of {limit} slots used
+    </Badge>
+  );
+}
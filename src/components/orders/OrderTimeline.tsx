@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { statusBadgeClass, statusLabel } from "@/lib/orders";
+import { ArrowRight, Loader2 } from "lucide-react";
+
+interface AssignmentRow {
+  id: string;
+  action: string;
+  user_id: string | null;
+  from_status: string | null;
+  to_status: string | null;
+  from_taken_by: string | null;
+  to_taken_by: string | null;
+  reason: string | null;
+  timestamp: string | null;
+}
+
+interface OrderTimelineProps {
+  orderId: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  taken: "Taken",
+  released: "Released",
+  reassigned: "Reassigned",
+  submitted: "Submitted for review",
+  returned: "Returned to editor",
+  completed: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  reopened: "Reopened",
+  revision: "Revision requested",
+};
+
+// Audit trail for one order, written by the log_order_transition trigger
+export default function OrderTimeline({ orderId }: OrderTimelineProps) {
+  const [loading, setLoading] = useState(true);
+  const [events, setEvents] = useState<AssignmentRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const fetchEvents = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("assignments")
+      .select("id, action, user_id, from_status, to_status, from_taken_by, to_taken_by, reason, timestamp")
+      .eq("order_id", orderId)
+      .order("timestamp", { ascending: true });
+    if (error) {
+      console.error(error);
+      setLoading(false);
+      return;
+    }
+
+    const rows = data || [];
+    const ids = Array.from(
+      new Set(rows.flatMap((r) => [r.user_id, r.from_taken_by, r.to_taken_by]).filter((id): id is string => Boolean(id)))
+    );
+    if (ids.length) {
+      const { data: profiles } = await supabase.from("profiles").select("id, full_name, email").in("id", ids);
+      const map: Record<string, string> = {};
+      (profiles || []).forEach((p) => (map[p.id] = p.full_name || p.email));
+      setNames(map);
+    }
+    setEvents(rows);
+    setLoading(false);
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchEvents();
+
+    const channel = supabase
+      .channel(`order-timeline-${orderId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "assignments", filter: `order_id=eq.${orderId}` },
+        () => fetchEvents()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId, fetchEvents]);
+
+  const nameOf = (id: string | null) => (id ? names[id] || "Unknown user" : "-");
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No activity recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {events.map((e) => (
+        <li key={e.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{ACTION_LABELS[e.action] ?? e.action}</span>
+            <span className="text-muted-foreground">by {e.user_id ? nameOf(e.user_id) : "System"}</span>
+            <span className="text-xs text-muted-foreground">
+              {e.timestamp ? new Date(e.timestamp).toLocaleString() : ""}
+            </span>
+          </div>
+          {e.from_status && e.to_status && e.from_status !== e.to_status && (
+            <div className="mt-1 flex items-center gap-2">
+              <Badge className={statusBadgeClass(e.from_status)}>{statusLabel(e.from_status)}</Badge>
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <Badge className={statusBadgeClass(e.to_status)}>{statusLabel(e.to_status)}</Badge>
+            </div>
+          )}
+          {e.from_taken_by !== e.to_taken_by && (e.from_taken_by || e.to_taken_by) && (
+            <div className="mt-1 text-xs text-muted-foreground">
+              Assignee: {nameOf(e.from_taken_by)} → {nameOf(e.to_taken_by)}
+            </div>
+          )}
+          {e.reason && <p className="mt-1 text-sm italic text-muted-foreground">“{e.reason}”</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
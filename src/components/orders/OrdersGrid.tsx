@@ -1,5 +1,10 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { type ColumnMapping, type SheetSourceMapping, extractFromSheet } from "@/lib/sheetMapping";
+import { takeOrder } from "@/lib/orderActions";
+import { briefsOf } from "@/lib/attachments";
+import BriefAttachments from "@/components/orders/BriefAttachments";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +23,9 @@ interface Order {
   taken_by: string | null;
   taken_at: string | null;
   created_at: string;
+  source_id: string | null;
+  raw_sheet_json: Json | null;
+  attachments: Json;
 }
 
 interface OrdersGridProps {
@@ -30,9 +38,11 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
   const [takingOrder, setTakingOrder] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [selected, setSelected] = useState<Order | null>(null);
+  const [sources, setSources] = useState<Record<string, SheetSourceMapping>>({});
 
   useEffect(() => {
     fetchOrders();
+    fetchSheetSources();
     subscribeToOrders();
   }, []);
 
@@ -42,6 +52,7 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
       .from("orders")
       .select("*")
       .eq("status", "available")
+      .is("archived_at", null)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -56,15 +67,9 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
   const handleRefresh = async () => {
     try {
       setRefreshing(true);
-      // Trigger server-side sync from Google Sheet, then refetch
+      // Trigger server-side sync of every enabled sheet source, then refetch
       try {
-        const sheetExportUrl = `https://docs.google.com/spreadsheets/d/1U3FZz4TCV3axNXy9U97xa9Zq85pCpTPZFNIy4Nfg7us/gviz/tq?tqx=out:json&gid=2062186565&cacheBust=${Date.now()}`;
-        await supabase.functions.invoke("sync-sheet", {
-          body: {
-            sheetUrl: sheetExportUrl,
-            user: "celite",
-          },
-        });
+        await supabase.functions.invoke("sync-sheet", { body: {} });
       } catch (e) {
         // Ignore function errors for editors; still try to refetch orders
         console.warn("sync-sheet invoke failed", e);
@@ -75,28 +80,13 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
     }
   };
 
-  const extractFromSheet = (order: any) => {
-    const raw = order?.raw_sheet_json as any;
-    // GViz row format: { c: [{v,f?}, ...] } with fixed columns we used
-    const get = (idx: number) => {
-      try {
-        const cell = raw?.c?.[idx];
-        return (cell?.f ?? cell?.v) ?? null;
-      } catch {
-        return null;
-      }
-    };
-    // Column mapping from the sheet we integrated earlier
-    const timestamp = get(0);
-    const service = get(1);
-    const description = get(2);
-    const budget = get(3);
-    const timeline = get(4);
-    const fullName = get(5);
-    const email = get(6);
-    const phone = get(7);
-    const whatsapp = get(8);
-    return { timestamp, service, description, budget, timeline, fullName, email, phone, whatsapp };
+  const fetchSheetSources = async () => {
+    const { data } = await supabase.from("sheet_sources").select("id, column_mapping, columns");
+    const map: Record<string, SheetSourceMapping> = {};
+    (data || []).forEach((src) => {
+      map[src.id] = { column_mapping: src.column_mapping as ColumnMapping, columns: src.columns };
+    });
+    setSources(map);
   };
 
   const subscribeToOrders = () => {
@@ -123,31 +113,10 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
   const handleTakeOrder = async (orderId: string) => {
     setTakingOrder(orderId);
 
-    const { error } = await supabase
-      .from("orders")
-      .update({
-        status: "taken",
-        taken_by: userId,
-        taken_at: new Date().toISOString(),
-      })
-      .eq("id", orderId)
-      .eq("status", "available");
-
+    const { error } = await takeOrder(orderId);
     if (error) {
-      if (error.code === "PGRST116") {
-        toast.error("This order has already been taken by someone else");
-      } else {
-        toast.error("Failed to take order");
-        console.error(error);
-      }
+      toast.error(error);
     } else {
-      // Create assignment audit log
-      await supabase.from("assignments").insert({
-        order_id: orderId,
-        user_id: userId,
-        action: "taken",
-      });
-
       toast.success("Order taken successfully!");
     }
 
@@ -247,7 +216,7 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
                       View Order
                     </Button>
                   </DialogTrigger>
-                  <DialogContent className="max-w-lg">
+                  <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
                     <DialogHeader>
                       <DialogTitle>Order Details</DialogTitle>
                     </DialogHeader>
@@ -266,17 +235,12 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
                       </div>
                       {selected && (
                         (() => {
-                          const s = extractFromSheet(selected as any);
+                          const s = extractFromSheet(
+                            selected.raw_sheet_json,
+                            selected.source_id ? sources[selected.source_id] : null
+                          );
                           return (
                             <>
-                              <div className="grid grid-cols-3 gap-2">
-                                <div className="text-muted-foreground">Email</div>
-                                <div className="col-span-2 break-all">{s.email || "-"}</div>
-                              </div>
-                              <div className="grid grid-cols-3 gap-2">
-                                <div className="text-muted-foreground">Phone</div>
-                                <div className="col-span-2">{s.phone || "-"}</div>
-                              </div>
                               <div className="grid grid-cols-3 gap-2">
                                 <div className="text-muted-foreground">Service</div>
                                 <div className="col-span-2">{s.service || "-"}</div>
@@ -285,6 +249,15 @@ const OrdersGrid = ({ userId }: OrdersGridProps) => {
                                 <div className="text-muted-foreground">Timeline</div>
                                 <div className="col-span-2">{s.timeline || "-"}</div>
                               </div>
+                              {briefsOf(selected.attachments).length > 0 && (
+                                <div className="space-y-2 pt-2">
+                                  <div className="text-muted-foreground">References</div>
+                                  <BriefAttachments orderId={selected.id} attachments={briefsOf(selected.attachments)} />
+                                </div>
+                              )}
+                              <p className="text-xs text-muted-foreground pt-2">
+                                Client contact details are shared once you take the order.
+                              </p>
                             </>
                           );
                         })()
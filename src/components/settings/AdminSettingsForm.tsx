@@ -0,0 +1,462 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Copy, Eye, EyeOff, KeyRound, Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+
+interface SettingsRow {
+  id: string;
+  revenue_threshold_default: number | null;
+  max_active_orders_default: number;
+  stale_expiry_enabled: boolean;
+  stale_warning_hours: number;
+  stale_grace_hours: number;
+  auto_sync_enabled: boolean;
+  auto_sync_interval_minutes: number;
+  notification_emails: string[] | null;
+  webhook_secret: string | null;
+  updated_at: string | null;
+}
+
+interface AdminSettingsFormProps {
+  onSaved?: () => void;
+}
+
+// Where Apps Script, forms and automation tools push orders (supabase/functions/intake-order)
+const INTAKE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/intake-order`;
+
+// NUMERIC(10, 2) upper bound
+const MAX_THRESHOLD = 99_999_999.99;
+
+// 1 hour to 30 days, matching the CHECK constraints on admin_settings
+function hoursField(label: string) {
+  return z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number of hours`)
+    .min(1, `${label} must be at least 1 hour`)
+    .max(720, `${label} cannot be more than 720 hours`);
+}
+
+const settingsSchema = z.object({
+  revenue_threshold_default: z.coerce
+    .number({ invalid_type_error: "Threshold must be a number" })
+    .positive("Threshold must be greater than 0")
+    .max(MAX_THRESHOLD, "Threshold is too large"),
+  max_active_orders_default: z.coerce
+    .number({ invalid_type_error: "Limit must be a number" })
+    .int("Limit must be a whole number")
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot be more than 100"),
+  stale_expiry_enabled: z.boolean(),
+  stale_warning_hours: hoursField("Warning"),
+  stale_grace_hours: hoursField("Grace period"),
+  auto_sync_enabled: z.boolean(),
+  // Matches the CHECK constraint; the scheduler itself ticks every 5 minutes
+  auto_sync_interval_minutes: z.coerce
+    .number({ invalid_type_error: "Interval must be a number" })
+    .int("Interval must be a whole number of minutes")
+    .min(5, "Interval must be at least 5 minutes")
+    .max(1440, "Interval cannot be more than 1440 minutes"),
+  notification_emails: z.array(z.string().email({ message: "Invalid email address" })),
+});
+
+function splitEmails(input: string): string[] {
+  return input
+    .split(/[\s,;]+/)
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export default function AdminSettingsForm({ onSaved }: AdminSettingsFormProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const [settings, setSettings] = useState<SettingsRow | null>(null);
+  const [threshold, setThreshold] = useState("");
+  const [maxActiveOrders, setMaxActiveOrders] = useState("");
+  const [staleEnabled, setStaleEnabled] = useState(true);
+  const [staleWarningHours, setStaleWarningHours] = useState("");
+  const [staleGraceHours, setStaleGraceHours] = useState("");
+  const [autoSyncEnabled, setAutoSyncEnabled] = useState(true);
+  const [autoSyncInterval, setAutoSyncInterval] = useState("");
+  const [emails, setEmails] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [showSecret, setShowSecret] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    setLoading(true);
+    // The secret is not readable through the table; only admins get it, through the RPC
+    const [{ data, error }, { data: secret, error: secretErr }] = await Promise.all([
+      supabase
+        .from("admin_settings")
+        .select("id, revenue_threshold_default, max_active_orders_default, stale_expiry_enabled, stale_warning_hours, stale_grace_hours, auto_sync_enabled, auto_sync_interval_minutes, notification_emails, updated_at")
+        .limit(1)
+        .maybeSingle(),
+      supabase.rpc("get_webhook_secret"),
+    ]);
+
+    if (error || secretErr) {
+      toast.error("Failed to load settings");
+      console.error(error ?? secretErr);
+    } else if (data) {
+      setSettings({ ...data, webhook_secret: secret ?? null });
+      setThreshold(String(data.revenue_threshold_default ?? ""));
+      setMaxActiveOrders(String(data.max_active_orders_default));
+      setStaleEnabled(data.stale_expiry_enabled);
+      setStaleWarningHours(String(data.stale_warning_hours));
+      setStaleGraceHours(String(data.stale_grace_hours));
+      setAutoSyncEnabled(data.auto_sync_enabled);
+      setAutoSyncInterval(String(data.auto_sync_interval_minutes));
+      setEmails((data.notification_emails ?? []).join("\n"));
+    }
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const parsed = settingsSchema.safeParse({
+      revenue_threshold_default: threshold,
+      max_active_orders_default: maxActiveOrders,
+      stale_expiry_enabled: staleEnabled,
+      stale_warning_hours: staleWarningHours,
+      stale_grace_hours: staleGraceHours,
+      auto_sync_enabled: autoSyncEnabled,
+      auto_sync_interval_minutes: autoSyncInterval,
+      notification_emails: splitEmails(emails),
+    });
+    if (!parsed.success) {
+      const next: Record<string, string> = {};
+      for (const issue of parsed.error.issues) {
+        const field = String(issue.path[0]);
+        if (!next[field]) {
+          next[field] =
+            field === "notification_emails" && typeof issue.path[1] === "number"
+              ? `${issue.message}: ${splitEmails(emails)[issue.path[1]]}`
+              : issue.message;
+        }
+      }
+      setErrors(next);
+      return;
+    }
+    setErrors({});
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("admin_settings")
+      .update({
+        revenue_threshold_default: parsed.data.revenue_threshold_default,
+        max_active_orders_default: parsed.data.max_active_orders_default,
+        stale_expiry_enabled: parsed.data.stale_expiry_enabled,
+        stale_warning_hours: parsed.data.stale_warning_hours,
+        stale_grace_hours: parsed.data.stale_grace_hours,
+        auto_sync_enabled: parsed.data.auto_sync_enabled,
+        auto_sync_interval_minutes: parsed.data.auto_sync_interval_minutes,
+        notification_emails: Array.from(new Set(parsed.data.notification_emails)),
+      })
+      .eq("id", settings.id);
+
+    if (error) {
+      toast.error("Failed to save settings");
+      console.error(error);
+    } else {
+      toast.success("Settings saved");
+      await fetchSettings();
+      onSaved?.();
+    }
+    setSaving(false);
+  };
+
+  const handleRotate = async () => {
+    setRotating(true);
+    const { error } = await supabase.rpc("rotate_webhook_secret");
+    if (error) {
+      toast.error("Failed to rotate webhook secret");
+      console.error(error);
+    } else {
+      toast.success("Webhook secret rotated");
+      setShowSecret(true);
+      await fetchSettings();
+      onSaved?.();
+    }
+    setRotating(false);
+  };
+
+  const handleCopySecret = async () => {
+    if (!settings?.webhook_secret) return;
+    await navigator.clipboard.writeText(settings.webhook_secret);
+    toast.success("Copied to clipboard");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!settings) {
+    return (
+      <Card className="glass-effect border-border/50">
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No settings row found. Run the database migrations first.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const saveButton = (
+    <Button onClick={handleSave} disabled={saving} className="gap-2">
+      {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+      {saving ? "Saving..." : "Save Changes"}
+    </Button>
+  );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card className="glass-effect border-border/50">
+        <CardHeader>
+          <CardTitle>General</CardTitle>
+          <CardDescription>
+            Revenue goal used by the analytics charts, editor workload limit and who receives notifications
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="revenue-threshold">Monthly Revenue Threshold (₹)</Label>
+            <Input
+              id="revenue-threshold"
+              type="number"
+              min="0"
+              step="1"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="bg-input border-border"
+            />
+            {errors.revenue_threshold_default && (
+              <p className="text-xs text-destructive">{errors.revenue_threshold_default}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-active-orders">Max Active Orders per Editor</Label>
+            <Input
+              id="max-active-orders"
+              type="number"
+              min="1"
+              max="100"
+              step="1"
+              value={maxActiveOrders}
+              onChange={(e) => setMaxActiveOrders(e.target.value)}
+              className="bg-input border-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              Default for every editor. Individual limits can be set per editor on the Admin page.
+            </p>
+            {errors.max_active_orders_default && (
+              <p className="text-xs text-destructive">{errors.max_active_orders_default}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notification-emails">Notification Emails</Label>
+            <Textarea
+              id="notification-emails"
+              rows={4}
+              placeholder={"ops@example.com\nowner@example.com"}
+              value={emails}
+              onChange={(e) => setEmails(e.target.value)}
+              className="bg-input border-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line, or separated by commas. These addresses get the emails set up under Email Templates.
+            </p>
+            {errors.notification_emails && (
+              <p className="text-xs text-destructive">{errors.notification_emails}</p>
+            )}
+          </div>
+          {saveButton}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-effect border-border/50">
+        <CardHeader>
+          <CardTitle>Webhook Secret</CardTitle>
+          <CardDescription>
+            Signs outgoing webhooks and authenticates orders pushed to the intake endpoint. Rotating it
+            invalidates the old one immediately.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Input
+              readOnly
+              type={showSecret ? "text" : "password"}
+              value={settings.webhook_secret ?? ""}
+              placeholder="Not set"
+              className="bg-input border-border font-mono"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowSecret((v) => !v)}
+              aria-label={showSecret ? "Hide secret" : "Show secret"}
+            >
+              {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleCopySecret}
+              disabled={!settings.webhook_secret}
+              aria-label="Copy secret"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm text-muted-foreground">Order intake URL</Label>
+            <p className="font-mono text-xs break-all">{INTAKE_URL}</p>
+            <p className="text-xs text-muted-foreground">
+              POST orders as JSON with an external_id, signed with this secret in an X-Webhook-Signature
+              header. Resending an external_id updates that order.
+            </p>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={rotating} className="gap-2">
+                {rotating ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+                {rotating ? "Rotating..." : "Rotate Secret"}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Rotate webhook secret?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Anything still signing or verifying with the current secret will stop working until it is
+                  updated with the new one.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRotate}>Rotate</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          {settings.updated_at && (
+            <p className="text-xs text-muted-foreground">
+              Settings last updated {new Date(settings.updated_at).toLocaleString()}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-effect border-border/50">
+        <CardHeader>
+          <CardTitle>Stale Orders</CardTitle>
+          <CardDescription>
+            Warn editors about taken orders with no activity, then release them back to available
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="stale-enabled">Automatic expiry</Label>
+            <Switch id="stale-enabled" checked={staleEnabled} onCheckedChange={setStaleEnabled} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stale-warning-hours">Warn after (hours)</Label>
+              <Input
+                id="stale-warning-hours"
+                type="number"
+                min="1"
+                max="720"
+                step="1"
+                value={staleWarningHours}
+                onChange={(e) => setStaleWarningHours(e.target.value)}
+                disabled={!staleEnabled}
+                className="bg-input border-border"
+              />
+              {errors.stale_warning_hours && (
+                <p className="text-xs text-destructive">{errors.stale_warning_hours}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stale-grace-hours">Release after warning (hours)</Label>
+              <Input
+                id="stale-grace-hours"
+                type="number"
+                min="1"
+                max="720"
+                step="1"
+                value={staleGraceHours}
+                onChange={(e) => setStaleGraceHours(e.target.value)}
+                disabled={!staleEnabled}
+                className="bg-input border-border"
+              />
+              {errors.stale_grace_hours && <p className="text-xs text-destructive">{errors.stale_grace_hours}</p>}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Checked every hour. Editors clear a warning with "Still working" on their order.
+          </p>
+          {saveButton}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-effect border-border/50">
+        <CardHeader>
+          <CardTitle>Sheet Sync</CardTitle>
+          <CardDescription>Pull new orders from every enabled sheet source on a schedule</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto-sync-enabled">Automatic sync</Label>
+            <Switch id="auto-sync-enabled" checked={autoSyncEnabled} onCheckedChange={setAutoSyncEnabled} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auto-sync-interval">Sync every (minutes)</Label>
+            <Input
+              id="auto-sync-interval"
+              type="number"
+              min="5"
+              max="1440"
+              step="5"
+              value={autoSyncInterval}
+              onChange={(e) => setAutoSyncInterval(e.target.value)}
+              disabled={!autoSyncEnabled}
+              className="bg-input border-border"
+            />
+            {errors.auto_sync_interval_minutes && (
+              <p className="text-xs text-destructive">{errors.auto_sync_interval_minutes}</p>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Scheduled syncs never remove orders. Refresh from Sheet on the Admin page still runs a full sync.
+          </p>
+          {saveButton}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { type ColumnMapping, FIELD_LABELS, ORDER_FIELDS, resolveColumns } from "@/lib/sheetMapping";
+
+const AUTO = "__auto__";
+
+export interface MappableSource {
+  id: string;
+  name: string;
+  column_mapping: ColumnMapping | null;
+  columns: string[] | null;
+}
+
+interface ColumnMappingDialogProps {
+  source: MappableSource | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export default function ColumnMappingDialog({ source, onOpenChange, onSaved }: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setMapping({ ...(source?.column_mapping ?? {}) });
+  }, [source]);
+
+  const columns = useMemo(() => source?.columns ?? [], [source]);
+  const resolution = useMemo(() => resolveColumns(mapping, columns), [mapping, columns]);
+
+  const handleSave = async () => {
+    if (!source) return;
+    // Drop blank entries so they fall back to auto-detect
+    const cleaned: ColumnMapping = {};
+    for (const field of ORDER_FIELDS) {
+      const label = mapping[field]?.trim();
+      if (label) cleaned[field] = label;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("sheet_sources")
+      .update({ column_mapping: cleaned })
+      .eq("id", source.id);
+
+    if (error) {
+      toast.error("Failed to save column mapping");
+      console.error(error);
+    } else {
+      toast.success("Column mapping saved");
+      onOpenChange(false);
+      onSaved?.();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={source !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Column Mapping — {source?.name}</DialogTitle>
+          <DialogDescription>
+            Choose which sheet column feeds each order field. Fields left on auto-detect are matched by column
+            label.
+            {columns.length === 0 && " Column names are recorded on the next sync; until then type labels exactly."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {ORDER_FIELDS.map((field) => {
+            const current = mapping[field]?.trim() || "";
+            const isMissing = resolution.missing.some((m) => m.field === field);
+            const detected = !current ? resolution.columnFor[field] : undefined;
+            return (
+              <div key={field} className="grid grid-cols-3 gap-3 items-center">
+                <Label htmlFor={`map-${field}`} className="text-sm">
+                  {FIELD_LABELS[field]}
+                </Label>
+                <div className="col-span-2 space-y-1">
+                  {columns.length > 0 ? (
+                    <Select
+                      value={current || AUTO}
+                      onValueChange={(v) => setMapping((prev) => ({ ...prev, [field]: v === AUTO ? null : v }))}
+                    >
+                      <SelectTrigger id={`map-${field}`} className="bg-input border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AUTO}>Auto-detect</SelectItem>
+                        {isMissing && <SelectItem value={current}>{current} (not in sheet)</SelectItem>}
+                        {columns.filter(Boolean).map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {c}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      id={`map-${field}`}
+                      value={current}
+                      placeholder="Auto-detect"
+                      onChange={(e) => setMapping((prev) => ({ ...prev, [field]: e.target.value }))}
+                      className="bg-input border-border"
+                    />
+                  )}
+                  {isMissing && <p className="text-xs text-destructive">Column not found in the last sync</p>}
+                  {columns.length > 0 && !current && (
+                    <p className="text-xs text-muted-foreground">
+                      {detected ? `Detected: ${detected}` : "No matching column"}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {resolution.unmappedColumns.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-border">
+            <p className="text-sm text-muted-foreground">Sheet columns not used by any field</p>
+            <div className="flex flex-wrap gap-2">
+              {resolution.unmappedColumns.map((c) => (
+                <Badge key={c} variant="secondary">
+                  {c}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Mapping
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  EMAIL_EVENTS,
+  EMAIL_EVENT_LABELS,
+  EMAIL_PLACEHOLDERS,
+  type EmailEvent,
+  SAMPLE_VARS,
+  renderTemplate,
+} from "@/lib/emailTemplates";
+import { Loader2, Mail, Save } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface TemplateRow {
+  event: string;
+  enabled: boolean;
+  subject: string;
+  body: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  event: string;
+  subject: string | null;
+  status: string;
+  error: string | null;
+  created_at: string;
+}
+
+const DELIVERY_BADGE: Record<string, string> = {
+  sent: "bg-success/10 text-success border-success/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  pending: "bg-muted text-muted-foreground border-border",
+};
+
+// Subject and body of each notification email, sent to the addresses in Admin Settings
+export default function EmailTemplatesManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [templates, setTemplates] = useState<Record<string, TemplateRow>>({});
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [event, setEvent] = useState<EmailEvent>("orders_synced");
+  const [draft, setDraft] = useState<TemplateRow | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    setDraft(templates[event] ? { ...templates[event] } : null);
+  }, [event, templates]);
+
+  const fetchTemplates = async () => {
+    setLoading(true);
+    const [{ data, error }, { data: sent }] = await Promise.all([
+      supabase.from("email_templates").select("event, enabled, subject, body"),
+      supabase
+        .from("email_deliveries")
+        .select("id, event, subject, status, error, created_at")
+        .order("created_at", { ascending: false })
+        .limit(5),
+    ]);
+    if (error) {
+      toast.error("Failed to load email templates");
+      console.error(error);
+    } else {
+      setTemplates(Object.fromEntries((data || []).map((t) => [t.event, t])));
+    }
+    setDeliveries(sent || []);
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.subject.trim() || !draft.body.trim()) {
+      toast.error("Subject and body cannot be empty");
+      return;
+    }
+    setSaving(true);
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from("email_templates")
+      .update({ enabled: draft.enabled, subject: draft.subject.trim(), body: draft.body, updated_by: user?.id ?? null })
+      .eq("event", draft.event);
+    if (error) {
+      toast.error("Failed to save template");
+      console.error(error);
+    } else {
+      toast.success("Template saved");
+      setTemplates((prev) => ({ ...prev, [draft.event]: { ...draft, subject: draft.subject.trim() } }));
+    }
+    setSaving(false);
+  };
+
+  const insertPlaceholder = (name: string) => {
+    setDraft((prev) => (prev ? { ...prev, body: `${prev.body}{{${name}}}` } : prev));
+  };
+
+  const dirty =
+    draft !== null &&
+    templates[event] !== undefined &&
+    (draft.enabled !== templates[event].enabled ||
+      draft.subject !== templates[event].subject ||
+      draft.body !== templates[event].body);
+
+  return (
+    <Card className="glass-effect border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5 text-primary" />
+          Email Templates
+        </CardTitle>
+        <CardDescription>
+          What the notification emails say. Use {"{{placeholders}}"} for order details.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4">
+              <Select value={event} onValueChange={(v) => setEvent(v as EmailEvent)}>
+                <SelectTrigger className="w-72 bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMAIL_EVENTS.map((e) => (
+                    <SelectItem key={e} value={e}>
+                      {EMAIL_EVENT_LABELS[e]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {draft && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="template-enabled"
+                    checked={draft.enabled}
+                    onCheckedChange={(checked) => setDraft({ ...draft, enabled: checked })}
+                  />
+                  <Label htmlFor="template-enabled" className="text-sm">
+                    Send this email
+                  </Label>
+                </div>
+              )}
+            </div>
+
+            {!draft ? (
+              <p className="text-sm text-muted-foreground">This template is missing. Run the latest migrations.</p>
+            ) : (
+              <div className="grid gap-4 lg:grid-cols-2">
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-subject">Subject</Label>
+                    <Input
+                      id="template-subject"
+                      value={draft.subject}
+                      onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                      className="bg-input border-border"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-body">Body</Label>
+                    <Textarea
+                      id="template-body"
+                      rows={8}
+                      value={draft.body}
+                      onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                      className="bg-input border-border font-mono text-sm"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {EMAIL_PLACEHOLDERS[event].map((p) => (
+                      <Button
+                        key={p}
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-6 px-2 font-mono text-xs"
+                        onClick={() => insertPlaceholder(p)}
+                      >
+                        {`{{${p}}}`}
+                      </Button>
+                    ))}
+                  </div>
+                  <Button onClick={handleSave} disabled={saving || !dirty} className="gap-2">
+                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    Save template
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label>Preview</Label>
+                  <div className="rounded-md border border-border/50 p-3 text-sm space-y-2">
+                    <div className="font-medium">{renderTemplate(draft.subject, SAMPLE_VARS)}</div>
+                    <p className="whitespace-pre-wrap text-muted-foreground">{renderTemplate(draft.body, SAMPLE_VARS)}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2 pt-2 border-t border-border">
+              <Label className="text-sm text-muted-foreground">Recently sent</Label>
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No emails sent yet</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {deliveries.map((d) => (
+                    <li key={d.id} className="flex items-center gap-2">
+                      <Badge className={DELIVERY_BADGE[d.status] ?? ""}>{d.status}</Badge>
+                      <span className="truncate">{d.subject || EMAIL_EVENT_LABELS[d.event as EmailEvent] || d.event}</span>
+                      <span className="ml-auto shrink-0 text-xs text-muted-foreground" title={d.error ?? undefined}>
+                        {formatDistanceToNow(new Date(d.created_at), { addSuffix: true })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface HistoryRow {
+  id: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  changed_by: string | null;
+  changed_at: string | null;
+}
+
+interface SettingsHistoryProps {
+  refreshKey?: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  revenue_threshold_default: "Revenue threshold",
+  notification_emails: "Notification emails",
+  webhook_secret: "Webhook secret",
+  auto_sync_enabled: "Automatic sync",
+  auto_sync_interval_minutes: "Sync interval (minutes)",
+};
+
+function formatValue(value: string | null): string {
+  if (value == null || value === "") return "—";
+  // Arrays come back from to_jsonb as JSON text
+  if (value.startsWith("[")) {
+    try {
+      const arr = JSON.parse(value);
+      if (Array.isArray(arr)) return arr.length ? arr.join(", ") : "—";
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+export default function SettingsHistory({ refreshKey = 0 }: SettingsHistoryProps) {
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<HistoryRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchHistory();
+  }, [refreshKey]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("admin_settings_history")
+      .select("id, field, old_value, new_value, changed_by, changed_at")
+      .order("changed_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error(error);
+      setRows([]);
+      setLoading(false);
+      return;
+    }
+    setRows(data || []);
+
+    const ids = Array.from(new Set((data || []).map((r) => r.changed_by).filter(Boolean))) as string[];
+    if (ids.length > 0) {
+      const { data: profs } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .in("id", ids);
+      const map: Record<string, string> = {};
+      (profs || []).forEach((p) => {
+        map[p.id] = p.full_name || p.email;
+      });
+      setNames(map);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Card className="glass-effect border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Change History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No changes recorded yet</p>
+        ) : (
+          <div className="relative overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 text-left">Setting</th>
+                  <th className="py-2 pr-4 text-left">From</th>
+                  <th className="py-2 pr-4 text-left">To</th>
+                  <th className="py-2 pr-4 text-left">Changed By</th>
+                  <th className="py-2 pr-4 text-left">When</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.id} className="border-b border-border/50">
+                    <td className="py-2 pr-4 font-medium">{FIELD_LABELS[r.field] ?? r.field}</td>
+                    <td className="py-2 pr-4 text-muted-foreground break-all">{formatValue(r.old_value)}</td>
+                    <td className="py-2 pr-4 break-all">{formatValue(r.new_value)}</td>
+                    <td className="py-2 pr-4">
+                      {r.changed_by ? names[r.changed_by] || r.changed_by : "System"}
+                    </td>
+                    <td
+                      className="py-2 pr-4 text-muted-foreground"
+                      title={r.changed_at ? new Date(r.changed_at).toLocaleString() : undefined}
+                    >
+                      {r.changed_at ? formatDistanceToNow(new Date(r.changed_at), { addSuffix: true }) : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,422 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import SheetSyncButton from "@/components/admin/SheetSyncButton";
+import ColumnMappingDialog from "@/components/settings/ColumnMappingDialog";
+import { type ColumnMapping, resolveColumns } from "@/lib/sheetMapping";
+import { Columns3, FileSpreadsheet, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+type SheetFormat = "gviz" | "opensheet";
+
+interface SheetSource {
+  id: string;
+  name: string;
+  url: string;
+  format: string;
+  enabled: boolean;
+  default_price: number | null;
+  default_category: string | null;
+  last_synced_at: string | null;
+  last_error: string | null;
+  column_mapping: ColumnMapping | null;
+  columns: string[] | null;
+}
+
+interface SourceDraft {
+  id?: string;
+  name: string;
+  url: string;
+  format: SheetFormat;
+  enabled: boolean;
+  default_price: string;
+  default_category: string;
+}
+
+const EMPTY_DRAFT: SourceDraft = {
+  name: "",
+  url: "",
+  format: "gviz",
+  enabled: true,
+  default_price: "",
+  default_category: "",
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+  gviz: "GViz",
+  opensheet: "OpenSheet",
+};
+
+const sourceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  url: z.string().trim().url("Enter a valid URL"),
+  format: z.enum(["gviz", "opensheet"]),
+  enabled: z.boolean(),
+  default_price: z
+    .union([z.literal(""), z.coerce.number().min(0, "Default price cannot be negative")])
+    .transform((v) => (v === "" ? null : v)),
+  default_category: z
+    .string()
+    .trim()
+    .max(100, "Category is too long")
+    .transform((v) => v || null),
+});
+
+// Accept a regular "share" link for GViz sources and turn it into the JSON feed URL
+function toGvizFeedUrl(url: string): string {
+  if (url.includes("/gviz/")) return url;
+  const id = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1];
+  if (!id) return url;
+  const gid = url.match(/[#?&]gid=(\d+)/)?.[1];
+  return `https://docs.google.com/spreadsheets/d/${id}/gviz/tq?tqx=out:json${gid ? `&gid=${gid}` : ""}`;
+}
+
+export default function SheetSourcesManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sources, setSources] = useState<SheetSource[]>([]);
+  const [draft, setDraft] = useState<SourceDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [mappingSource, setMappingSource] = useState<SheetSource | null>(null);
+
+  useEffect(() => {
+    fetchSources();
+  }, []);
+
+  const fetchSources = async () => {
+    const { data, error } = await supabase
+      .from("sheet_sources")
+      .select(
+        "id, name, url, format, enabled, default_price, default_category, last_synced_at, last_error, column_mapping, columns"
+      )
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error("Failed to load sheet sources");
+      console.error(error);
+    } else {
+      setSources((data || []).map((s) => ({ ...s, column_mapping: s.column_mapping as ColumnMapping })));
+    }
+    setLoading(false);
+  };
+
+  const openEdit = (source: SheetSource) => {
+    setErrors({});
+    setDraft({
+      id: source.id,
+      name: source.name,
+      url: source.url,
+      format: source.format === "opensheet" ? "opensheet" : "gviz",
+      enabled: source.enabled,
+      default_price: source.default_price != null ? String(source.default_price) : "",
+      default_category: source.default_category ?? "",
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const parsed = sourceSchema.safeParse(draft);
+    if (!parsed.success) {
+      const next: Record<string, string> = {};
+      for (const issue of parsed.error.issues) {
+        const field = String(issue.path[0]);
+        if (!next[field]) next[field] = issue.message;
+      }
+      setErrors(next);
+      return;
+    }
+    setErrors({});
+
+    const { name, url, format, enabled, default_price, default_category } = parsed.data;
+    const values = {
+      name,
+      url: format === "gviz" ? toGvizFeedUrl(url) : url,
+      format,
+      enabled,
+      default_price,
+      default_category,
+    };
+
+    setSaving(true);
+    const { error } = draft.id
+      ? await supabase.from("sheet_sources").update(values).eq("id", draft.id)
+      : await supabase.from("sheet_sources").insert(values);
+
+    if (error) {
+      toast.error("Failed to save sheet source");
+      console.error(error);
+    } else {
+      toast.success(draft.id ? "Sheet source updated" : "Sheet source added");
+      setDraft(null);
+      await fetchSources();
+    }
+    setSaving(false);
+  };
+
+  const handleToggle = async (source: SheetSource, enabled: boolean) => {
+    setSources((prev) => prev.map((s) => (s.id === source.id ? { ...s, enabled } : s)));
+    const { error } = await supabase.from("sheet_sources").update({ enabled }).eq("id", source.id);
+    if (error) {
+      toast.error("Failed to update sheet source");
+      console.error(error);
+      await fetchSources();
+    }
+  };
+
+  const handleDelete = async (source: SheetSource) => {
+    const { error } = await supabase.from("sheet_sources").delete().eq("id", source.id);
+    if (error) {
+      toast.error("Failed to delete sheet source");
+      console.error(error);
+    } else {
+      toast.success("Sheet source deleted");
+      await fetchSources();
+    }
+  };
+
+  return (
+    <Card className="glass-effect border-border/50">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            Sheet Sources
+          </CardTitle>
+          <CardDescription>Google Sheets that orders are synced from</CardDescription>
+        </div>
+        <Button
+          size="sm"
+          className="gap-2"
+          onClick={() => {
+            setErrors({});
+            setDraft({ ...EMPTY_DRAFT });
+          }}
+        >
+          <Plus className="h-4 w-4" />
+          Add Source
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : sources.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No sheet sources configured</p>
+        ) : (
+          <div className="relative overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 text-left">Enabled</th>
+                  <th className="py-2 pr-4 text-left">Source</th>
+                  <th className="py-2 pr-4 text-left">Format</th>
+                  <th className="py-2 pr-4 text-left">Defaults</th>
+                  <th className="py-2 pr-4 text-left">Last Synced</th>
+                  <th className="py-2 pr-4 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sources.map((s) => (
+                  <tr key={s.id} className="border-b border-border/50 align-top">
+                    <td className="py-2 pr-4">
+                      <Switch checked={s.enabled} onCheckedChange={(v) => handleToggle(s, v)} />
+                    </td>
+                    <td className="py-2 pr-4 max-w-[360px]">
+                      <div className="font-medium">{s.name}</div>
+                      <div className="text-muted-foreground line-clamp-1 break-all">{s.url}</div>
+                      {s.last_error && <div className="text-xs text-destructive mt-1">{s.last_error}</div>}
+                      {(() => {
+                        if (!s.columns?.length) return null;
+                        const { missing, unmappedFields } = resolveColumns(s.column_mapping, s.columns);
+                        const count = missing.length + unmappedFields.length;
+                        return count > 0 ? (
+                          <div className="text-xs text-warning mt-1">
+                            {count} field{count !== 1 ? "s" : ""} not mapped to a sheet column
+                          </div>
+                        ) : null;
+                      })()}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Badge variant="secondary">{FORMAT_LABELS[s.format] ?? s.format}</Badge>
+                    </td>
+                    <td className="py-2 pr-4 text-muted-foreground">
+                      <div>{s.default_price != null ? `₹${Number(s.default_price).toLocaleString()}` : "-"}</div>
+                      <div>{s.default_category || "-"}</div>
+                    </td>
+                    <td className="py-2 pr-4 text-muted-foreground">
+                      {s.last_synced_at
+                        ? formatDistanceToNow(new Date(s.last_synced_at), { addSuffix: true })
+                        : "Never"}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center gap-2">
+                        {s.enabled && <SheetSyncButton sourceId={s.id} onSynced={fetchSources} />}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setMappingSource(s)}
+                          aria-label="Edit column mapping"
+                        >
+                          <Columns3 className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => openEdit(s)} aria-label="Edit source">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="icon" variant="ghost" aria-label="Delete source">
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete "{s.name}"?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The sheet will no longer be synced. Orders already imported from it are kept.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(s)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <ColumnMappingDialog
+        source={mappingSource}
+        onOpenChange={(open) => !open && setMappingSource(null)}
+        onSaved={fetchSources}
+      />
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Sheet Source" : "Add Sheet Source"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="source-name">Name</Label>
+                <Input
+                  id="source-name"
+                  value={draft.name}
+                  placeholder="Website intake form"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="bg-input border-border"
+                />
+                {errors.name && <p className="text-xs text-destructive">{errors.name}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-format">Format</Label>
+                <Select
+                  value={draft.format}
+                  onValueChange={(v) => setDraft({ ...draft, format: v as SheetFormat })}
+                >
+                  <SelectTrigger id="source-format" className="bg-input border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="gviz">GViz (Google Sheets JSON feed)</SelectItem>
+                    <SelectItem value="opensheet">OpenSheet (opensheet.elk.sh)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-url">URL</Label>
+                <Input
+                  id="source-url"
+                  type="url"
+                  value={draft.url}
+                  placeholder={
+                    draft.format === "gviz"
+                      ? "https://docs.google.com/spreadsheets/d/.../edit#gid=0"
+                      : "https://opensheet.elk.sh/<sheet id>/<tab name>"
+                  }
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  className="bg-input border-border"
+                />
+                {errors.url && <p className="text-xs text-destructive">{errors.url}</p>}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="source-price">Default Price (₹)</Label>
+                  <Input
+                    id="source-price"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={draft.default_price}
+                    placeholder="Used when budget is blank"
+                    onChange={(e) => setDraft({ ...draft, default_price: e.target.value })}
+                    className="bg-input border-border"
+                  />
+                  {errors.default_price && <p className="text-xs text-destructive">{errors.default_price}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="source-category">Default Category</Label>
+                  <Input
+                    id="source-category"
+                    value={draft.default_category}
+                    placeholder="Used when service is blank"
+                    onChange={(e) => setDraft({ ...draft, default_category: e.target.value })}
+                    className="bg-input border-border"
+                  />
+                  {errors.default_category && (
+                    <p className="text-xs text-destructive">{errors.default_category}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="source-enabled"
+                  checked={draft.enabled}
+                  onCheckedChange={(v) => setDraft({ ...draft, enabled: v })}
+                />
+                <Label htmlFor="source-enabled">Enabled</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
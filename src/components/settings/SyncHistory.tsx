@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, RotateCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface SyncRun {
+  id: string;
+  trigger: string;
+  status: string;
+  source_id: string | null;
+  triggered_by: string | null;
+  started_at: string;
+  finished_at: string | null;
+  inserted: number;
+  updated: number;
+  purged: number;
+  skipped: number;
+  total_rows: number;
+  error: string | null;
+}
+
+const TRIGGER_LABELS: Record<string, string> = {
+  manual: "Manual",
+  cron: "Scheduled",
+  webhook: "Webhook",
+};
+
+const STATUS_BADGE: Record<string, string> = {
+  succeeded: "bg-success/10 text-success border-success/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  running: "bg-muted text-muted-foreground border-border",
+};
+
+function formatDuration(run: SyncRun): string {
+  if (!run.finished_at) return "-";
+  const seconds = (new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.round(seconds / 60)}m`;
+}
+
+// Every sheet sync (manual, scheduled) and pushed intake request, newest first
+export default function SyncHistory() {
+  const [loading, setLoading] = useState(true);
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [sources, setSources] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchRuns();
+  }, []);
+
+  const fetchRuns = async () => {
+    setLoading(true);
+    const [{ data, error }, { data: srcs }] = await Promise.all([
+      supabase
+        .from("sync_runs")
+        .select("id, trigger, status, source_id, triggered_by, started_at, finished_at, inserted, updated, purged, skipped, total_rows, error")
+        .order("started_at", { ascending: false })
+        .limit(30),
+      supabase.from("sheet_sources").select("id, name"),
+    ]);
+
+    if (error) {
+      console.error(error);
+      setRuns([]);
+      setLoading(false);
+      return;
+    }
+    setRuns(data || []);
+    setSources(Object.fromEntries((srcs || []).map((s) => [s.id, s.name])));
+
+    const ids = Array.from(new Set((data || []).map((r) => r.triggered_by).filter(Boolean))) as string[];
+    if (ids.length > 0) {
+      const { data: profs } = await supabase.from("profiles").select("id, full_name, email").in("id", ids);
+      const map: Record<string, string> = {};
+      (profs || []).forEach((p) => {
+        map[p.id] = p.full_name || p.email;
+      });
+      setNames(map);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Card className="glass-effect border-border/50">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <RotateCw className="h-5 w-5 text-primary" />
+          Sync History
+        </CardTitle>
+        <Button size="icon" variant="ghost" onClick={fetchRuns} aria-label="Refresh sync history">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No syncs recorded yet</p>
+        ) : (
+          <div className="relative overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 text-left">Started</th>
+                  <th className="py-2 pr-4 text-left">Trigger</th>
+                  <th className="py-2 pr-4 text-left">Status</th>
+                  <th className="py-2 pr-4 text-right">Rows</th>
+                  <th className="py-2 pr-4 text-right">Inserted</th>
+                  <th className="py-2 pr-4 text-right">Updated</th>
+                  <th className="py-2 pr-4 text-right">Unchanged</th>
+                  <th className="py-2 pr-4 text-right">Archived</th>
+                  <th className="py-2 pr-4 text-left">Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((r) => (
+                  <tr key={r.id} className="border-b border-border/50 align-top">
+                    <td className="py-2 pr-4 text-muted-foreground" title={new Date(r.started_at).toLocaleString()}>
+                      {formatDistanceToNow(new Date(r.started_at), { addSuffix: true })}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div>{TRIGGER_LABELS[r.trigger] ?? r.trigger}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[r.triggered_by && (names[r.triggered_by] || r.triggered_by), r.source_id && sources[r.source_id]]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4 max-w-[320px]">
+                      <Badge className={STATUS_BADGE[r.status] ?? ""}>{r.status}</Badge>
+                      {r.error && <div className="text-xs text-destructive mt-1 line-clamp-3 break-words">{r.error}</div>}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{r.total_rows}</td>
+                    <td className="py-2 pr-4 text-right">{r.inserted}</td>
+                    <td className="py-2 pr-4 text-right">{r.updated}</td>
+                    <td className="py-2 pr-4 text-right">{r.skipped}</td>
+                    <td className="py-2 pr-4 text-right">{r.purged}</td>
+                    <td className="py-2 pr-4 text-muted-foreground">{formatDuration(r)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,446 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS, type WebhookEvent, replayWebhookDelivery } from "@/lib/webhooks";
+import { Loader2, Pencil, Plus, RefreshCw, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  enabled: boolean;
+}
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event: string;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+}
+
+interface EndpointDraft {
+  id?: string;
+  url: string;
+  description: string;
+  events: string[];
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: EndpointDraft = {
+  url: "",
+  description: "",
+  events: [...WEBHOOK_EVENTS],
+  enabled: true,
+};
+
+const DELIVERY_BADGE: Record<string, string> = {
+  delivered: "bg-success/10 text-success border-success/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  pending: "bg-muted text-muted-foreground border-border",
+};
+
+const DELIVERY_LIMIT = 20;
+
+const endpointSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Enter a valid URL")
+    .regex(/^https?:\/\//i, "Use an http(s) URL"),
+  description: z
+    .string()
+    .trim()
+    .max(200, "Description is too long")
+    .transform((v) => v || null),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Pick at least one event"),
+  enabled: z.boolean(),
+});
+
+// Endpoints that receive signed order events, and the log of what was sent to them
+export default function WebhooksManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [draft, setDraft] = useState<EndpointDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  const fetchWebhooks = async () => {
+    const [{ data, error }, { data: sent, error: sentErr }] = await Promise.all([
+      supabase
+        .from("webhook_endpoints")
+        .select("id, url, description, events, enabled")
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("webhook_deliveries")
+        .select("id, endpoint_id, event, status, attempts, response_status, error, next_attempt_at, created_at")
+        .order("created_at", { ascending: false })
+        .limit(DELIVERY_LIMIT),
+    ]);
+    if (error || sentErr) {
+      toast.error("Failed to load webhooks");
+      console.error(error ?? sentErr);
+    }
+    setEndpoints(data || []);
+    setDeliveries(sent || []);
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const parsed = endpointSchema.safeParse(draft);
+    if (!parsed.success) {
+      const next: Record<string, string> = {};
+      for (const issue of parsed.error.issues) {
+        const field = String(issue.path[0]);
+        if (!next[field]) next[field] = issue.message;
+      }
+      setErrors(next);
+      return;
+    }
+    setErrors({});
+
+    const { url, description, events, enabled } = parsed.data;
+    const values = { url, description, events, enabled };
+
+    setSaving(true);
+    let error;
+    if (draft.id) {
+      ({ error } = await supabase.from("webhook_endpoints").update(values).eq("id", draft.id));
+    } else {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      ({ error } = await supabase.from("webhook_endpoints").insert({ ...values, created_by: user?.id ?? null }));
+    }
+
+    if (error) {
+      toast.error("Failed to save webhook");
+      console.error(error);
+    } else {
+      toast.success(draft.id ? "Webhook updated" : "Webhook added");
+      setDraft(null);
+      await fetchWebhooks();
+    }
+    setSaving(false);
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpoint, enabled: boolean) => {
+    setEndpoints((prev) => prev.map((e) => (e.id === endpoint.id ? { ...e, enabled } : e)));
+    const { error } = await supabase.from("webhook_endpoints").update({ enabled }).eq("id", endpoint.id);
+    if (error) {
+      toast.error("Failed to update webhook");
+      console.error(error);
+      await fetchWebhooks();
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    const { error } = await supabase.from("webhook_endpoints").delete().eq("id", endpoint.id);
+    if (error) {
+      toast.error("Failed to delete webhook");
+      console.error(error);
+    } else {
+      toast.success("Webhook deleted");
+      await fetchWebhooks();
+    }
+  };
+
+  const handleReplay = async (delivery: DeliveryRow) => {
+    setReplaying(delivery.id);
+    const { error } = await replayWebhookDelivery(delivery.id);
+    setReplaying(null);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    toast.success("Delivery queued again");
+    await fetchWebhooks();
+  };
+
+  const toggleDraftEvent = (event: WebhookEvent, checked: boolean) => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            events: checked
+              ? WEBHOOK_EVENTS.filter((e) => e === event || prev.events.includes(e))
+              : prev.events.filter((e) => e !== event),
+          }
+        : prev
+    );
+  };
+
+  const endpointUrl = (id: string) => endpoints.find((e) => e.id === id)?.url ?? "Deleted endpoint";
+
+  return (
+    <Card className="glass-effect border-border/50">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5 text-primary" />
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Order events posted to your URLs, signed with the webhook secret (X-Webhook-Signature)
+          </CardDescription>
+        </div>
+        <Button
+          size="sm"
+          className="gap-2"
+          onClick={() => {
+            setErrors({});
+            setDraft({ ...EMPTY_DRAFT });
+          }}
+        >
+          <Plus className="h-4 w-4" />
+          Add Webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {endpoints.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">No webhooks configured</p>
+            ) : (
+              <div className="relative overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground border-b border-border">
+                      <th className="py-2 pr-4 text-left">Enabled</th>
+                      <th className="py-2 pr-4 text-left">Endpoint</th>
+                      <th className="py-2 pr-4 text-left">Events</th>
+                      <th className="py-2 pr-4 text-left">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {endpoints.map((e) => (
+                      <tr key={e.id} className="border-b border-border/50 align-top">
+                        <td className="py-2 pr-4">
+                          <Switch checked={e.enabled} onCheckedChange={(v) => handleToggle(e, v)} />
+                        </td>
+                        <td className="py-2 pr-4 max-w-[360px]">
+                          <div className="font-medium line-clamp-1 break-all">{e.url}</div>
+                          {e.description && <div className="text-muted-foreground">{e.description}</div>}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="flex flex-wrap gap-1">
+                            {e.events.map((ev) => (
+                              <Badge key={ev} variant="secondary">
+                                {WEBHOOK_EVENT_LABELS[ev as WebhookEvent] ?? ev}
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => {
+                                setErrors({});
+                                setDraft({
+                                  id: e.id,
+                                  url: e.url,
+                                  description: e.description ?? "",
+                                  events: e.events,
+                                  enabled: e.enabled,
+                                });
+                              }}
+                              aria-label="Edit webhook"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button size="icon" variant="ghost" aria-label="Delete webhook">
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {e.url} will stop receiving events. Its delivery log is deleted too.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(e)}>Delete</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="space-y-2 pt-2 border-t border-border">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-muted-foreground">Recent deliveries</Label>
+                <Button size="icon" variant="ghost" onClick={fetchWebhooks} aria-label="Refresh deliveries">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing sent yet</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {deliveries.map((d) => (
+                    <li key={d.id} className="flex items-start gap-2">
+                      <Badge className={DELIVERY_BADGE[d.status] ?? ""}>{d.status}</Badge>
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate">
+                          <span className="font-mono text-xs">{d.event}</span>
+                          <span className="text-muted-foreground"> to {endpointUrl(d.endpoint_id)}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {d.attempts} attempt{d.attempts !== 1 ? "s" : ""}
+                          {d.response_status != null && ` · HTTP ${d.response_status}`}
+                          {d.status === "pending" &&
+                            d.attempts > 0 &&
+                            ` · next try ${formatDistanceToNow(new Date(d.next_attempt_at), { addSuffix: true })}`}
+                        </div>
+                        {d.error && <div className="text-xs text-destructive line-clamp-2 break-all">{d.error}</div>}
+                      </div>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(d.created_at), { addSuffix: true })}
+                      </span>
+                      {d.status === "failed" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 gap-1 px-2 text-xs"
+                          onClick={() => handleReplay(d)}
+                          disabled={replaying === d.id}
+                        >
+                          {replaying === d.id ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-3 w-3" />
+                          )}
+                          Replay
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  value={draft.url}
+                  placeholder="https://example.com/hooks/orders"
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  className="bg-input border-border"
+                />
+                {errors.url && <p className="text-xs text-destructive">{errors.url}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-description">Description</Label>
+                <Input
+                  id="webhook-description"
+                  value={draft.description}
+                  placeholder="CRM sync"
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className="bg-input border-border"
+                />
+                {errors.description && <p className="text-xs text-destructive">{errors.description}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {WEBHOOK_EVENTS.map((ev) => (
+                    <div key={ev} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`webhook-event-${ev}`}
+                        checked={draft.events.includes(ev)}
+                        onCheckedChange={(checked) => toggleDraftEvent(ev, checked === true)}
+                      />
+                      <Label htmlFor={`webhook-event-${ev}`} className="font-normal">
+                        {WEBHOOK_EVENT_LABELS[ev]}
+                        <span className="ml-1 font-mono text-xs text-muted-foreground">{ev}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                {errors.events && <p className="text-xs text-destructive">{errors.events}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="webhook-enabled"
+                  checked={draft.enabled}
+                  onCheckedChange={(v) => setDraft({ ...draft, enabled: v })}
+                />
+                <Label htmlFor="webhook-enabled">Enabled</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { UnreadCount, fetchUnreadCounts } from "@/lib/comments";
+
+// Unread comment counts for a set of orders, kept current over realtime
+export function useUnreadComments(orderIds: string[]) {
+  const [counts, setCounts] = useState<Record<string, UnreadCount>>({});
+  const key = [...orderIds].sort().join(",");
+
+  const refresh = useCallback(async () => {
+    setCounts(await fetchUnreadCounts(key ? key.split(",") : []));
+  }, [key]);
+
+  useEffect(() => {
+    refresh();
+
+    // RLS limits the events to threads the user can read
+    const channel = supabase
+      .channel("unread-comments-changes")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "order_comments" }, () => refresh())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [refresh, key]);
+
+  return { counts, refresh };
+}
@@ -16,52 +16,126 @@ export type Database = {
     Tables: {
       admin_settings: {
         Row: {
+          auto_sync_enabled: boolean
+          auto_sync_interval_minutes: number
           created_at: string | null
           id: string
+          max_active_orders_default: number
           notification_emails: string[] | null
           revenue_threshold_default: number | null
+          stale_expiry_enabled: boolean
+          stale_grace_hours: number
+          stale_warning_hours: number
           updated_at: string | null
+          updated_by: string | null
           webhook_secret: string | null
         }
         Insert: {
+          auto_sync_enabled?: boolean
+          auto_sync_interval_minutes?: number
           created_at?: string | null
           id?: string
+          max_active_orders_default?: number
           notification_emails?: string[] | null
           revenue_threshold_default?: number | null
+          stale_expiry_enabled?: boolean
+          stale_grace_hours?: number
+          stale_warning_hours?: number
           updated_at?: string | null
+          updated_by?: string | null
           webhook_secret?: string | null
         }
         Update: {
+          auto_sync_enabled?: boolean
+          auto_sync_interval_minutes?: number
           created_at?: string | null
           id?: string
+          max_active_orders_default?: number
           notification_emails?: string[] | null
           revenue_threshold_default?: number | null
+          stale_expiry_enabled?: boolean
+          stale_grace_hours?: number
+          stale_warning_hours?: number
           updated_at?: string | null
+          updated_by?: string | null
           webhook_secret?: string | null
         }
         Relationships: []
       }
+      admin_settings_history: {
+        Row: {
+          changed_at: string | null
+          changed_by: string | null
+          field: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          settings_id: string
+        }
+        Insert: {
+          changed_at?: string | null
+          changed_by?: string | null
+          field: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          settings_id: string
+        }
+        Update: {
+          changed_at?: string | null
+          changed_by?: string | null
+          field?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          settings_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_settings_history_settings_id_fkey"
+            columns: ["settings_id"]
+            isOneToOne: false
+            referencedRelation: "admin_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assignments: {
         Row: {
           action: string
+          from_status: string | null
+          from_taken_by: string | null
           id: string
           order_id: string
+          reason: string | null
           timestamp: string | null
-          user_id: string
+          to_status: string | null
+          to_taken_by: string | null
+          user_id: string | null
         }
         Insert: {
           action: string
+          from_status?: string | null
+          from_taken_by?: string | null
           id?: string
           order_id: string
+          reason?: string | null
           timestamp?: string | null
-          user_id: string
+          to_status?: string | null
+          to_taken_by?: string | null
+          user_id?: string | null
         }
         Update: {
           action?: string
+          from_status?: string | null
+          from_taken_by?: string | null
           id?: string
           order_id?: string
+          reason?: string | null
           timestamp?: string | null
-          user_id?: string
+          to_status?: string | null
+          to_taken_by?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -73,68 +147,517 @@ export type Database = {
           },
         ]
       }
+      clients: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          first_seen_at: string | null
+          id: string
+          last_contact_at: string | null
+          name: string
+          phone: string | null
+          updated_at: string | null
+          whatsapp: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          first_seen_at?: string | null
+          id?: string
+          last_contact_at?: string | null
+          name: string
+          phone?: string | null
+          updated_at?: string | null
+          whatsapp?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          first_seen_at?: string | null
+          id?: string
+          last_contact_at?: string | null
+          name?: string
+          phone?: string | null
+          updated_at?: string | null
+          whatsapp?: string | null
+        }
+        Relationships: []
+      }
+      editor_settings: {
+        Row: {
+          created_at: string | null
+          max_active_orders: number | null
+          updated_at: string | null
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          max_active_orders?: number | null
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          max_active_orders?: number | null
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      email_deliveries: {
+        Row: {
+          created_at: string
+          dedupe_key: string | null
+          error: string | null
+          event: string
+          id: string
+          order_id: string | null
+          recipients: string[]
+          status: string
+          subject: string | null
+          transport: string | null
+        }
+        Insert: {
+          created_at?: string
+          dedupe_key?: string | null
+          error?: string | null
+          event: string
+          id?: string
+          order_id?: string | null
+          recipients?: string[]
+          status?: string
+          subject?: string | null
+          transport?: string | null
+        }
+        Update: {
+          created_at?: string
+          dedupe_key?: string | null
+          error?: string | null
+          event?: string
+          id?: string
+          order_id?: string | null
+          recipients?: string[]
+          status?: string
+          subject?: string | null
+          transport?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_deliveries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body: string
+          enabled: boolean
+          event: string
+          subject: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          body: string
+          enabled?: boolean
+          event: string
+          subject: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          body?: string
+          enabled?: boolean
+          event?: string
+          subject?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          enabled: boolean
+          type: string
+          user_id: string
+        }
+        Insert: {
+          enabled?: boolean
+          type: string
+          user_id: string
+        }
+        Update: {
+          enabled?: boolean
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          order_id: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_comment_reads: {
+        Row: {
+          last_read_at: string
+          order_id: string
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          order_id: string
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          order_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_comment_reads_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_comments: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          order_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          order_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_comments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_contacts: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          order_id: string
+          phone: string | null
+          updated_at: string | null
+          whatsapp: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          order_id: string
+          phone?: string | null
+          updated_at?: string | null
+          whatsapp?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          order_id?: string
+          phone?: string | null
+          updated_at?: string | null
+          whatsapp?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_contacts_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_pending_changes: {
+        Row: {
+          detected_at: string
+          field: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          order_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          detected_at?: string
+          field: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          order_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          detected_at?: string
+          field?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          order_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_pending_changes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_rounds: {
+        Row: {
+          actual_amount: number | null
+          created_at: string | null
+          deliverable_link: string | null
+          editor_feedback: string | null
+          id: string
+          notes: string | null
+          order_id: string
+          requested_at: string | null
+          requested_by: string | null
+          round: number
+          submitted_at: string | null
+          submitted_by: string | null
+        }
+        Insert: {
+          actual_amount?: number | null
+          created_at?: string | null
+          deliverable_link?: string | null
+          editor_feedback?: string | null
+          id?: string
+          notes?: string | null
+          order_id: string
+          requested_at?: string | null
+          requested_by?: string | null
+          round: number
+          submitted_at?: string | null
+          submitted_by?: string | null
+        }
+        Update: {
+          actual_amount?: number | null
+          created_at?: string | null
+          deliverable_link?: string | null
+          editor_feedback?: string | null
+          id?: string
+          notes?: string | null
+          order_id?: string
+          requested_at?: string | null
+          requested_by?: string | null
+          round?: number
+          submitted_at?: string | null
+          submitted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_rounds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
-          attachments: Json | null
+          archive_reason: string | null
+          archived_at: string | null
+          attachments: Json
+          cancelled_at: string | null
+          client_id: string | null
           client_name: string
           completed_at: string | null
+          content_hash: string | null
           editor_feedback: string | null
+          external_id: string | null
           created_at: string | null
           deliverable_link: string | null
           due_date: string | null
           actual_amount: number | null
+          failed_at: string | null
           id: string
+          last_activity_at: string | null
           price: number
           raw_sheet_json: Json | null
           requirement_text: string
+          restored_at: string | null
+          review_comments: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          revision_count: number
           sheet_row_id: string | null
           source: string | null
+          source_id: string | null
+          stale_warned_at: string | null
           status: string
+          submitted_at: string | null
           taken_at: string | null
           taken_by: string | null
           updated_at: string | null
         }
         Insert: {
-          attachments?: Json | null
+          archive_reason?: string | null
+          archived_at?: string | null
+          attachments?: Json
+          cancelled_at?: string | null
+          client_id?: string | null
           client_name: string
           completed_at?: string | null
+          content_hash?: string | null
           editor_feedback?: string | null
+          external_id?: string | null
           created_at?: string | null
           deliverable_link?: string | null
           due_date?: string | null
           actual_amount?: number | null
+          failed_at?: string | null
           id?: string
+          last_activity_at?: string | null
           price: number
           raw_sheet_json?: Json | null
           requirement_text: string
+          restored_at?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          revision_count?: number
           sheet_row_id?: string | null
           source?: string | null
+          source_id?: string | null
+          stale_warned_at?: string | null
           status?: string
+          submitted_at?: string | null
           taken_at?: string | null
           taken_by?: string | null
           updated_at?: string | null
         }
         Update: {
-          attachments?: Json | null
+          archive_reason?: string | null
+          archived_at?: string | null
+          attachments?: Json
+          cancelled_at?: string | null
+          client_id?: string | null
           client_name?: string
           completed_at?: string | null
+          content_hash?: string | null
           editor_feedback?: string | null
+          external_id?: string | null
           created_at?: string | null
           deliverable_link?: string | null
           due_date?: string | null
           actual_amount?: number | null
+          failed_at?: string | null
           id?: string
+          last_activity_at?: string | null
           price?: number
           raw_sheet_json?: Json | null
           requirement_text?: string
+          restored_at?: string | null
+          review_comments?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          revision_count?: number
           sheet_row_id?: string | null
           source?: string | null
+          source_id?: string | null
+          stale_warned_at?: string | null
           status?: string
+          submitted_at?: string | null
           taken_at?: string | null
           taken_by?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "orders_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "sheet_sources"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -166,6 +689,110 @@ export type Database = {
         }
         Relationships: []
       }
+      sheet_sources: {
+        Row: {
+          column_mapping: Json
+          columns: string[] | null
+          created_at: string | null
+          default_category: string | null
+          default_price: number | null
+          enabled: boolean
+          format: string
+          id: string
+          last_error: string | null
+          last_synced_at: string | null
+          name: string
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          column_mapping?: Json
+          columns?: string[] | null
+          created_at?: string | null
+          default_category?: string | null
+          default_price?: number | null
+          enabled?: boolean
+          format?: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          name: string
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          column_mapping?: Json
+          columns?: string[] | null
+          created_at?: string | null
+          default_category?: string | null
+          default_price?: number | null
+          enabled?: boolean
+          format?: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          name?: string
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      sync_runs: {
+        Row: {
+          error: string | null
+          finished_at: string | null
+          id: string
+          inserted: number
+          purged: number
+          skipped: number
+          source_id: string | null
+          started_at: string
+          status: string
+          total_rows: number
+          trigger: string
+          triggered_by: string | null
+          updated: number
+        }
+        Insert: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          inserted?: number
+          purged?: number
+          skipped?: number
+          source_id?: string | null
+          started_at?: string
+          status?: string
+          total_rows?: number
+          trigger: string
+          triggered_by?: string | null
+          updated?: number
+        }
+        Update: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          inserted?: number
+          purged?: number
+          skipped?: number
+          source_id?: string | null
+          started_at?: string
+          status?: string
+          total_rows?: number
+          trigger?: string
+          triggered_by?: string | null
+          updated?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sync_runs_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "sheet_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -187,11 +814,177 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          error: string | null
+          event: string
+          id: string
+          next_attempt_at: string
+          order_id: string | null
+          payload: Json
+          response_status: number | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          error?: string | null
+          event: string
+          id?: string
+          next_attempt_at?: string
+          order_id?: string | null
+          payload: Json
+          response_status?: number | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          error?: string | null
+          event?: string
+          id?: string
+          next_attempt_at?: string
+          order_id?: string | null
+          payload?: Json
+          response_status?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          enabled: boolean
+          events: string[]
+          id: string
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_brief_attachment: {
+        Args: {
+          _content_type?: string
+          _name: string
+          _order_id: string
+          _path: string
+          _size?: number
+        }
+        Returns: Json
+      }
+      add_order_attachment: {
+        Args: {
+          _content_type?: string
+          _name: string
+          _order_id: string
+          _path: string
+          _size?: number
+        }
+        Returns: Json
+      }
+      admin_assign_order: {
+        Args: { _editor_id: string; _order_id: string; _reason?: string }
+        Returns: undefined
+      }
+      approve_order: {
+        Args: { _comments?: string; _order_id: string }
+        Returns: undefined
+      }
+      assignment_action: {
+        Args: { _from: string; _to: string }
+        Returns: string
+      }
+      can_access_order_files: {
+        Args: { _folder: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_order_thread: {
+        Args: { _order_id: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_webhook_deliveries: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          error: string | null
+          event: string
+          id: string
+          next_attempt_at: string
+          order_id: string | null
+          payload: Json
+          response_status: number | null
+          status: string
+        }[]
+      }
+      editor_active_order_count: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      editor_order_limit: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      fail_order: {
+        Args: { _order_id: string; _reason?: string }
+        Returns: undefined
+      }
+      get_webhook_secret: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -199,6 +992,125 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_edge_function: {
+        Args: { _body?: Json; _name: string }
+        Returns: number
+      }
+      last_sync_at: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      link_order_clients: {
+        Args: { _rows: Json }
+        Returns: number
+      }
+      mark_notifications_read: {
+        Args: { _ids?: string[] }
+        Returns: number
+      }
+      mark_order_comments_read: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      normalize_email: {
+        Args: { _value: string }
+        Returns: string
+      }
+      normalize_phone: {
+        Args: { _value: string }
+        Returns: string
+      }
+      notification_enabled: {
+        Args: { _type: string; _user_id: string }
+        Returns: boolean
+      }
+      notify_user: {
+        Args: {
+          _body?: string
+          _order_id?: string
+          _title: string
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      order_comment_unread_counts: {
+        Args: { _order_ids: string[] }
+        Returns: {
+          mentioned: boolean
+          order_id: string
+          unread: number
+        }[]
+      }
+      order_status_transition_allowed: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      record_order_changes: {
+        Args: { _rows: Json }
+        Returns: number
+      }
+      release_order: {
+        Args: { _order_id: string; _reason?: string }
+        Returns: undefined
+      }
+      release_stale_order: {
+        Args: { _order_id: string; _reason: string; _taken_by: string }
+        Returns: boolean
+      }
+      remove_brief_attachment: {
+        Args: { _order_id: string; _path: string }
+        Returns: undefined
+      }
+      replay_webhook_delivery: {
+        Args: { _delivery_id: string }
+        Returns: undefined
+      }
+      request_changes: {
+        Args: { _comments: string; _order_id: string }
+        Returns: undefined
+      }
+      request_revision: {
+        Args: { _notes: string; _order_id: string }
+        Returns: undefined
+      }
+      resolve_order_change: {
+        Args: { _accept: boolean; _change_id: string }
+        Returns: undefined
+      }
+      restore_order: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      rotate_webhook_secret: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      set_sheet_brief_links: {
+        Args: { _rows: Json }
+        Returns: number
+      }
+      set_transition_reason: {
+        Args: { _reason: string }
+        Returns: undefined
+      }
+      submit_order: {
+        Args: {
+          _actual_amount?: number
+          _deliverable_link?: string
+          _editor_feedback?: string
+          _order_id: string
+        }
+        Returns: undefined
+      }
+      take_order: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      touch_order: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "editor" | "admin"
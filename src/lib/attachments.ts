@@ -0,0 +1,221 @@
+// Files and links on an order, all kept in orders.attachments and told apart by `kind`
+// (see supabase/migrations/20251020230000_brief_attachments.sql):
+// - deliverables: the editor's uploads in the private `deliverables` bucket, versioned by name
+// - briefs: the client's reference material, either links found in the sheet row or files
+//   admins upload to the `briefs` bucket
+// Files are uploaded first and then recorded by a Postgres function; downloads and previews
+// go through short-lived signed URLs.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { OrderActionResult, toResult } from "@/lib/orderActions";
+
+export const DELIVERABLES_BUCKET = "deliverables";
+export const BRIEFS_BUCKET = "briefs";
+
+// Long enough to start a download, short enough that a copied link stops working
+const SIGNED_URL_SECONDS = 60;
+// Previews stay on screen while the dialog is open
+const PREVIEW_URL_SECONDS = 10 * 60;
+
+interface StoredFile {
+  path: string;
+  name: string;
+  size: number | null;
+  content_type: string | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+}
+
+export interface DeliverableAttachment extends StoredFile {
+  kind: "deliverable";
+  version: number;
+  round: number;
+}
+
+export interface BriefFileAttachment extends StoredFile {
+  kind: "brief";
+  type: "file";
+}
+
+export interface BriefLinkAttachment {
+  kind: "brief";
+  type: "link";
+  url: string;
+  source: "sheet";
+}
+
+export type BriefAttachment = BriefFileAttachment | BriefLinkAttachment;
+
+function isObject(value: Json): value is { [key: string]: Json } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function entries(value: Json | null | undefined): { [key: string]: Json }[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+// Deliverable uploads; tolerates malformed entries
+export function deliverablesOf(value: Json | null | undefined): DeliverableAttachment[] {
+  return entries(value).filter(
+    (a) => a.kind === "deliverable" && typeof a.path === "string" && typeof a.name === "string"
+  ) as unknown as DeliverableAttachment[];
+}
+
+export function briefsOf(value: Json | null | undefined): BriefAttachment[] {
+  return entries(value).filter(
+    (a) =>
+      a.kind === "brief" &&
+      ((a.type === "link" && typeof a.url === "string") ||
+        (a.type === "file" && typeof a.path === "string" && typeof a.name === "string"))
+  ) as unknown as BriefAttachment[];
+}
+
+// Deliverables grouped by file name, newest version first in each group
+export function groupAttachmentVersions(
+  attachments: DeliverableAttachment[]
+): { name: string; versions: DeliverableAttachment[] }[] {
+  const groups = new Map<string, DeliverableAttachment[]>();
+  attachments.forEach((a) => groups.set(a.name, [...(groups.get(a.name) ?? []), a]));
+  return Array.from(groups, ([name, versions]) => ({
+    name,
+    versions: versions.sort((a, b) => b.version - a.version),
+  }));
+}
+
+export function formatFileSize(bytes: number | null): string {
+  if (bytes === null || bytes === undefined) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+export type PreviewKind = "image" | "video" | "other";
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|avif|bmp|svg)$/i;
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v|ogv)$/i;
+
+// From the content type when known, else from the file name or URL path
+export function previewKind(nameOrUrl: string, contentType?: string | null): PreviewKind {
+  if (contentType?.startsWith("image/")) return "image";
+  if (contentType?.startsWith("video/")) return "video";
+  let path = nameOrUrl;
+  try {
+    path = new URL(nameOrUrl).pathname;
+  } catch (_) {
+    // a plain file name
+  }
+  if (IMAGE_EXTENSIONS.test(path)) return "image";
+  if (VIDEO_EXTENSIONS.test(path)) return "video";
+  return "other";
+}
+
+export function linkHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch (_) {
+    return url;
+  }
+}
+
+export function faviconUrl(url: string): string {
+  return `https://www.google.com/s2/favicons?domain=${encodeURIComponent(linkHost(url))}&sz=32`;
+}
+
+// Thumbnail for YouTube links, which are the most common video references in briefs
+export function youtubeThumbnail(url: string): string | null {
+  try {
+    const u = new URL(url);
+    const host = u.hostname.replace(/^(www|m)\./, "");
+    let id: string | null = null;
+    if (host === "youtu.be") id = u.pathname.slice(1);
+    else if (host === "youtube.com") id = u.searchParams.get("v") ?? u.pathname.match(/^\/(?:shorts|embed)\/([^/]+)/)?.[1] ?? null;
+    return id ? `https://img.youtube.com/vi/${encodeURIComponent(id)}/mqdefault.jpg` : null;
+  } catch (_) {
+    return null;
+  }
+}
+
+async function uploadToBucket(bucket: string, orderId: string, file: File): Promise<string | null> {
+  // The random prefix keeps every upload (and so every version) as its own object
+  const safeName = file.name.replace(/[^\w.-]+/g, "_");
+  const path = `${orderId}/${crypto.randomUUID()}-${safeName}`;
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, file, { contentType: file.type || undefined, upsert: false });
+  if (error) {
+    console.error(error);
+    return null;
+  }
+  return path;
+}
+
+// Editor only, while the order is in progress
+export async function uploadAttachment(orderId: string, file: File): Promise<OrderActionResult> {
+  const path = await uploadToBucket(DELIVERABLES_BUCKET, orderId, file);
+  if (!path) return { error: `Failed to upload ${file.name}`, code: null };
+
+  const { error } = await supabase.rpc("add_order_attachment", {
+    _order_id: orderId,
+    _path: path,
+    _name: file.name,
+    _size: file.size,
+    _content_type: file.type || null,
+  });
+  return toResult(error, `Failed to attach ${file.name}`);
+}
+
+// Admin only
+export async function uploadBriefFile(orderId: string, file: File): Promise<OrderActionResult> {
+  const path = await uploadToBucket(BRIEFS_BUCKET, orderId, file);
+  if (!path) return { error: `Failed to upload ${file.name}`, code: null };
+
+  const { error } = await supabase.rpc("add_brief_attachment", {
+    _order_id: orderId,
+    _path: path,
+    _name: file.name,
+    _size: file.size,
+    _content_type: file.type || null,
+  });
+  return toResult(error, `Failed to attach ${file.name}`);
+}
+
+// Admin only
+export async function removeBriefFile(orderId: string, attachment: BriefFileAttachment): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("remove_brief_attachment", { _order_id: orderId, _path: attachment.path });
+  if (error) return toResult(error, `Failed to remove ${attachment.name}`);
+  // The entry is gone either way; a leftover object is only wasted space
+  const { error: storageError } = await supabase.storage.from(BRIEFS_BUCKET).remove([attachment.path]);
+  if (storageError) console.error(storageError);
+  return { error: null, code: null };
+}
+
+export async function attachmentDownloadUrl(
+  attachment: StoredFile,
+  bucket: string = DELIVERABLES_BUCKET
+): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(attachment.path, SIGNED_URL_SECONDS, { download: attachment.name });
+  if (error) {
+    console.error(error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+// path -> signed URL for inline previews
+export async function briefPreviewUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage.from(BRIEFS_BUCKET).createSignedUrls(paths, PREVIEW_URL_SECONDS);
+  if (error) {
+    console.error(error);
+    return {};
+  }
+  const out: Record<string, string> = {};
+  (data || []).forEach((d) => {
+    if (d.path && d.signedUrl) out[d.path] = d.signedUrl;
+  });
+  return out;
+}
@@ -0,0 +1,74 @@
+// Order comment threads (see supabase/migrations/20251021000000_order_comments.sql).
+// Only admins and the order's assigned editor can read or post. Mentions are written as
+// "@Full Name" in the body and stored as user ids so the mentioned user can be flagged.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ThreadParticipant {
+  id: string;
+  name: string;
+}
+
+export interface UnreadCount {
+  unread: number;
+  mentioned: boolean;
+}
+
+export function mentionToken(participant: ThreadParticipant): string {
+  return `@${participant.name}`;
+}
+
+// Ids of participants whose @Name still appears in the body
+export function extractMentions(body: string, participants: ThreadParticipant[]): string[] {
+  return participants.filter((p) => body.includes(mentionToken(p))).map((p) => p.id);
+}
+
+// Admins plus the current assignee: the people who can read the thread
+export async function fetchThreadParticipants(orderId: string): Promise<ThreadParticipant[]> {
+  const [{ data: admins }, { data: order }] = await Promise.all([
+    supabase.from("user_roles").select("user_id").eq("role", "admin"),
+    supabase.from("orders").select("taken_by").eq("id", orderId).maybeSingle(),
+  ]);
+  const ids = Array.from(
+    new Set([...(admins || []).map((a) => a.user_id), order?.taken_by].filter((id): id is string => Boolean(id)))
+  );
+  if (ids.length === 0) return [];
+  const { data: profiles, error } = await supabase.from("profiles").select("id, full_name, email").in("id", ids);
+  if (error) console.error(error);
+  return (profiles || [])
+    .map((p) => ({ id: p.id, name: p.full_name || p.email }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function postComment(
+  orderId: string,
+  authorId: string,
+  body: string,
+  mentions: string[]
+): Promise<{ error: string | null }> {
+  const { error } = await supabase
+    .from("order_comments")
+    .insert({ order_id: orderId, author_id: authorId, body: body.trim(), mentions });
+  if (error) {
+    console.error(error);
+    return { error: "Failed to send comment" };
+  }
+  return { error: null };
+}
+
+export async function markCommentsRead(orderId: string): Promise<void> {
+  const { error } = await supabase.rpc("mark_order_comments_read", { _order_id: orderId });
+  if (error) console.error(error);
+}
+
+export async function fetchUnreadCounts(orderIds: string[]): Promise<Record<string, UnreadCount>> {
+  if (orderIds.length === 0) return {};
+  const { data, error } = await supabase.rpc("order_comment_unread_counts", { _order_ids: orderIds });
+  if (error) {
+    console.error(error);
+    return {};
+  }
+  const out: Record<string, UnreadCount> = {};
+  (data || []).forEach((r) => (out[r.order_id] = { unread: r.unread, mentioned: r.mentioned }));
+  return out;
+}
@@ -0,0 +1,54 @@
+// Email notification templates edited in settings. The send-notification edge function fills
+// the placeholders; keep renderTemplate in sync with supabase/functions/_shared/email.ts.
+
+export const EMAIL_EVENTS = [
+  "orders_synced",
+  "order_taken",
+  "order_completed",
+  "order_failed",
+  "revenue_threshold",
+] as const;
+
+export type EmailEvent = (typeof EMAIL_EVENTS)[number];
+
+export const EMAIL_EVENT_LABELS: Record<EmailEvent, string> = {
+  orders_synced: "New orders from sheet sync",
+  order_taken: "Order taken",
+  order_completed: "Order completed",
+  order_failed: "Order failed",
+  revenue_threshold: "Monthly revenue goal reached",
+};
+
+const ORDER_PLACEHOLDERS = ["client_name", "requirement", "price", "amount", "deliverable_link", "editor_name", "reason", "order_id"];
+
+export const EMAIL_PLACEHOLDERS: Record<EmailEvent, string[]> = {
+  orders_synced: ["count", "orders"],
+  order_taken: ORDER_PLACEHOLDERS,
+  order_completed: ORDER_PLACEHOLDERS,
+  order_failed: ORDER_PLACEHOLDERS,
+  revenue_threshold: ["month", "revenue", "threshold"],
+};
+
+// Example values for the settings preview
+export const SAMPLE_VARS: Record<string, string> = {
+  count: "2",
+  orders: "- Priya Sharma (₹1,500): Reels — 3 short edits\n- Arjun Mehta (₹4,000): YouTube — 12 min vlog",
+  client_name: "Priya Sharma",
+  requirement: "Reels — 3 short edits with captions",
+  price: "1,500",
+  amount: "1,800",
+  deliverable_link: "https://drive.google.com/...",
+  editor_name: "Rahul",
+  reason: "Client stopped responding",
+  order_id: "00000000-0000-0000-0000-000000000000",
+  month: "October 2025",
+  revenue: "1,25,000",
+  threshold: "1,00,000",
+};
+
+export function renderTemplate(template: string, vars: Record<string, string | number | null | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = vars[name];
+    return value === null || value === undefined ? "" : String(value);
+  });
+}
@@ -0,0 +1,84 @@
+// In-app notifications (see supabase/migrations/20251021020000_notifications.sql). Rows are
+// written by database triggers; the client only reads them, marks them read, and stores
+// per-type opt-outs in notification_preferences.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export const NOTIFICATION_TYPES = [
+  "orders_available",
+  "order_assigned",
+  "order_unassigned",
+  "revision_requested",
+  "order_auto_released",
+  "comment_mention",
+  "order_brief_changed",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  orders_available: "New orders available",
+  order_assigned: "Orders assigned to me",
+  order_unassigned: "Orders moved away from me",
+  revision_requested: "Revisions and change requests",
+  order_auto_released: "Orders released for inactivity",
+  comment_mention: "Mentions in order messages",
+  order_brief_changed: "Sheet changes to orders in progress",
+};
+
+// Editors only receive the order types; every user can be mentioned and hears about sheet changes
+export const EDITOR_ONLY_TYPES: NotificationType[] = [
+  "orders_available",
+  "order_assigned",
+  "order_unassigned",
+  "revision_requested",
+  "order_auto_released",
+];
+
+export interface NotificationRow {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  order_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Where clicking a notification takes the user
+export function notificationPath(n: NotificationRow, isAdmin: boolean): string {
+  if (isAdmin) return "/admin";
+  return n.type === "orders_available" || n.type === "order_unassigned" || n.type === "order_auto_released"
+    ? "/"
+    : "/my-orders";
+}
+
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  const { error } = await supabase.rpc("mark_notifications_read", { _ids: ids ?? null });
+  if (error) console.error(error);
+}
+
+// type -> enabled; types without a row are on
+export async function fetchNotificationPreferences(userId: string): Promise<Record<string, boolean>> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("type, enabled")
+    .eq("user_id", userId);
+  if (error) console.error(error);
+  return Object.fromEntries((data || []).map((p) => [p.type, p.enabled]));
+}
+
+export async function setNotificationPreference(
+  userId: string,
+  type: NotificationType,
+  enabled: boolean
+): Promise<{ error: string | null }> {
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert({ user_id: userId, type, enabled }, { onConflict: "user_id,type" });
+  if (error) {
+    console.error(error);
+    return { error: "Failed to save preference" };
+  }
+  return { error: null };
+}
@@ -0,0 +1,138 @@
+// Order actions (editor and admin). Each one is a single Postgres function (see
+// supabase/migrations/20251020150000_order_action_rpcs.sql) that checks the order's
+// current state and applies the change; the assignments audit row is written by a trigger
+// on orders in the same transaction.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type OrderActionErrorCode =
+  | "not_authenticated"
+  | "not_admin"
+  | "not_editor"
+  | "already_assigned"
+  | "not_found"
+  | "already_taken"
+  | "not_available"
+  | "limit_reached"
+  | "not_assignee"
+  | "invalid_transition"
+  | "invalid_amount"
+  | "invalid_link"
+  | "invalid_attachment"
+  | "not_in_review"
+  | "not_completed"
+  | "comments_required";
+
+const ERROR_MESSAGES: Record<OrderActionErrorCode, string> = {
+  not_authenticated: "Your session has expired. Please sign in again",
+  not_admin: "Only admins can do this",
+  not_editor: "Orders can only be assigned to editors",
+  already_assigned: "The order is already assigned to this editor",
+  not_found: "This order no longer exists",
+  already_taken: "This order has already been taken by someone else",
+  not_available: "This order is no longer available",
+  limit_reached: "You have reached your limit of active orders",
+  not_assignee: "This order is not assigned to you",
+  invalid_transition: "This order has changed. Refresh and try again",
+  invalid_amount: "The actual amount cannot be negative",
+  invalid_link: "The deliverable link must be a full http(s) URL",
+  invalid_attachment: "The file could not be attached to this order",
+  not_in_review: "This order is no longer awaiting review",
+  not_completed: "Only completed orders can be revised",
+  comments_required: "Tell the editor what needs to change",
+};
+
+// `error` is a message ready to show the user; null when the action succeeded
+export interface OrderActionResult {
+  error: string | null;
+  code: OrderActionErrorCode | null;
+}
+
+interface RpcError {
+  message: string;
+  details?: string | null;
+}
+
+export function toResult(error: RpcError | null, fallback: string): OrderActionResult {
+  if (!error) return { error: null, code: null };
+  const code = error.message in ERROR_MESSAGES ? (error.message as OrderActionErrorCode) : null;
+  if (!code) console.error(error);
+  // The function's DETAIL is more specific (e.g. "You already have this order") when present
+  const message = code ? error.details || ERROR_MESSAGES[code] : fallback;
+  return { error: message, code };
+}
+
+export async function takeOrder(orderId: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("take_order", { _order_id: orderId });
+  return toResult(error, "Failed to take order");
+}
+
+// Hands finished work to an admin for review; the order only counts as completed once approved
+export async function submitOrder(
+  orderId: string,
+  details: { deliverableLink?: string | null; actualAmount?: number | null; feedback?: string | null }
+): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("submit_order", {
+    _order_id: orderId,
+    _deliverable_link: details.deliverableLink ?? null,
+    _actual_amount: details.actualAmount ?? null,
+    _editor_feedback: details.feedback ?? null,
+  });
+  return toResult(error, "Failed to submit order");
+}
+
+export async function releaseOrder(orderId: string, reason?: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("release_order", { _order_id: orderId, _reason: reason?.trim() || null });
+  return toResult(error, "Failed to leave order");
+}
+
+// "Still working on it": clears a stale-order warning and restarts the inactivity window
+export async function touchOrder(orderId: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("touch_order", { _order_id: orderId });
+  return toResult(error, "Failed to update order");
+}
+
+export async function failOrder(orderId: string, reason?: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("fail_order", { _order_id: orderId, _reason: reason?.trim() || null });
+  return toResult(error, "Failed to mark order as failed");
+}
+
+// Admin only: give an available order to an editor, or move a taken one to another editor
+export async function assignOrder(orderId: string, editorId: string, reason?: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("admin_assign_order", {
+    _order_id: orderId,
+    _editor_id: editorId,
+    _reason: reason?.trim() || null,
+  });
+  return toResult(error, "Failed to assign order");
+}
+
+// Admin only: accept submitted work. From here the order counts toward revenue.
+export async function approveOrder(orderId: string, comments?: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("approve_order", { _order_id: orderId, _comments: comments?.trim() || null });
+  return toResult(error, "Failed to approve order");
+}
+
+// Admin only: send submitted work back to the same editor with comments
+export async function requestChanges(orderId: string, comments: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("request_changes", { _order_id: orderId, _comments: comments.trim() });
+  return toResult(error, "Failed to send the order back");
+}
+
+// Admin only: bring an archived order back; later sheet purges leave it alone
+export async function restoreOrder(orderId: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("restore_order", { _order_id: orderId });
+  return toResult(error, "Failed to restore order");
+}
+
+// Admin only: apply a sheet change held for an order in progress, or turn it down
+export async function resolveOrderChange(changeId: string, accept: boolean): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("resolve_order_change", { _change_id: changeId, _accept: accept });
+  return toResult(error, accept ? "Failed to apply the change" : "Failed to reject the change");
+}
+
+// Admin only: reopen a completed order as a new revision round for the same editor
+export async function requestRevision(orderId: string, notes: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("request_revision", { _order_id: orderId, _notes: notes.trim() });
+  return toResult(error, "Failed to open a revision");
+}
@@ -0,0 +1,61 @@
+// Shared helpers for reading order rows in analytics and client views
+
+export const ORDER_STATUSES = ["available", "taken", "in_review", "completed", "failed", "cancelled"] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const STATUS_LABELS: Record<OrderStatus, string> = {
+  available: "Available",
+  taken: "In Progress",
+  in_review: "In Review",
+  completed: "Success",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  available: "bg-accent/10 text-accent border-accent/20",
+  taken: "bg-warning/10 text-warning border-warning/20",
+  in_review: "bg-primary/10 text-primary border-primary/20",
+  completed: "bg-success/10 text-success border-success/20",
+  failed: "bg-destructive/10 text-destructive border-destructive/20",
+  cancelled: "bg-muted text-muted-foreground border-border",
+};
+
+interface OrderOutcome {
+  status: string;
+  completed_at?: string | null;
+}
+
+interface OrderAmounts extends OrderOutcome {
+  price: number | null;
+  actual_amount?: number | null;
+}
+
+export function isFailedOrder(order: OrderOutcome): boolean {
+  return order.status === "failed";
+}
+
+// An approved order keeps completed_at while it is reopened for a revision, so it stays in
+// revenue until it is approved again; only failing or cancelling it takes the amount back out.
+// The same rule as a PostgREST filter: completed_at not null and status not in UNEARNED_STATUSES.
+export const UNEARNED_STATUSES = "(failed,cancelled)";
+
+// The orders that count toward revenue
+export function isSuccessfulOrder(order: OrderOutcome): boolean {
+  if (order.completed_at === undefined) return order.status === "completed";
+  return order.completed_at !== null && order.status !== "failed" && order.status !== "cancelled";
+}
+
+export function orderRevenue(order: OrderAmounts): number {
+  if (!isSuccessfulOrder(order)) return 0;
+  return Number(order.actual_amount ?? order.price ?? 0);
+}
+
+export function statusLabel(status: string): string {
+  return STATUS_LABELS[status as OrderStatus] ?? status;
+}
+
+export function statusBadgeClass(status: string): string {
+  return STATUS_BADGE_CLASSES[status as OrderStatus] ?? "";
+}
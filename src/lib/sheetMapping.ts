@@ -0,0 +1,123 @@
+// Declarative mapping from sheet column labels to order fields.
+// Keep in sync with supabase/functions/_shared/sheet-mapping.ts, which sync-sheet uses.
+
+export const ORDER_FIELDS = [
+  "client_name",
+  "email",
+  "phone",
+  "whatsapp",
+  "service",
+  "description",
+  "budget",
+  "timeline",
+  "timestamp",
+  "references",
+] as const;
+
+export type OrderField = (typeof ORDER_FIELDS)[number];
+
+export type ColumnMapping = Partial<Record<OrderField, string | null>>;
+
+export type SheetFields = Record<OrderField, string | null>;
+
+export const FIELD_LABELS: Record<OrderField, string> = {
+  client_name: "Client Name",
+  email: "Email",
+  phone: "Phone",
+  whatsapp: "WhatsApp",
+  service: "Service",
+  description: "Description",
+  budget: "Budget",
+  timeline: "Timeline",
+  timestamp: "Timestamp",
+  references: "Reference Links",
+};
+
+// Used for fields that have no explicit mapping: first column whose label matches wins
+const FIELD_KEYWORDS: Record<OrderField, RegExp> = {
+  client_name: /full name|^name$/i,
+  email: /e-?mail/i,
+  phone: /^(?!.*whats\s*app).*(phone|mobile)/i,
+  whatsapp: /whats\s*app/i,
+  service: /service/i,
+  description: /describe|description/i,
+  budget: /budget/i,
+  timeline: /timeline/i,
+  timestamp: /^timestamp$/i,
+  references: /reference|attachment|sample/i,
+};
+
+export interface ColumnResolution {
+  columnFor: Partial<Record<OrderField, string>>;
+  missing: { field: OrderField; label: string }[];
+  unmappedFields: OrderField[];
+  unmappedColumns: string[];
+}
+
+export interface SheetSourceMapping {
+  column_mapping: ColumnMapping | null;
+  columns: string[] | null;
+}
+
+export function resolveColumns(mapping: ColumnMapping | null | undefined, columns: string[]): ColumnResolution {
+  const present = new Set(columns);
+  const columnFor: Partial<Record<OrderField, string>> = {};
+  const missing: { field: OrderField; label: string }[] = [];
+  const unmappedFields: OrderField[] = [];
+
+  for (const field of ORDER_FIELDS) {
+    const label = mapping?.[field]?.trim();
+    if (label) {
+      if (present.has(label)) columnFor[field] = label;
+      else missing.push({ field, label });
+      continue;
+    }
+    const used = new Set(Object.values(columnFor));
+    const guess = columns.find((c) => c && !used.has(c) && FIELD_KEYWORDS[field].test(c));
+    if (guess) columnFor[field] = guess;
+    else unmappedFields.push(field);
+  }
+
+  const used = new Set(Object.values(columnFor));
+  const unmappedColumns = columns.filter((c) => c && !used.has(c));
+  return { columnFor, missing, unmappedFields, unmappedColumns };
+}
+
+type GvizRow = { c?: ({ v?: unknown; f?: string } | null)[] };
+
+function isGvizRow(raw: unknown): raw is GvizRow {
+  return typeof raw === "object" && raw !== null && Array.isArray((raw as GvizRow).c);
+}
+
+/**
+ * Read order fields out of raw_sheet_json. Handles both stored shapes: GViz rows
+ * ({ c: [{ v, f }] }, looked up through the source's last seen column labels) and
+ * OpenSheet rows (plain objects keyed by column label).
+ */
+export function extractFromSheet(raw: unknown, source: SheetSourceMapping | null | undefined): SheetFields {
+  const empty = Object.fromEntries(ORDER_FIELDS.map((f) => [f, null])) as SheetFields;
+  if (!raw || typeof raw !== "object") return empty;
+
+  let columns: string[];
+  let get: (label: string) => unknown;
+  if (isGvizRow(raw)) {
+    columns = source?.columns ?? [];
+    get = (label) => {
+      const cell = raw.c?.[columns.indexOf(label)];
+      return cell?.f ?? cell?.v ?? null;
+    };
+  } else {
+    const row = raw as Record<string, unknown>;
+    columns = source?.columns?.length ? source.columns : Object.keys(row);
+    get = (label) => row[label] ?? null;
+  }
+
+  const { columnFor } = resolveColumns(source?.column_mapping, columns);
+  const out = { ...empty };
+  for (const field of ORDER_FIELDS) {
+    const label = columnFor[field];
+    const value = label ? get(label) : null;
+    out[field] = value == null || String(value).trim() === "" ? null : String(value).trim();
+  }
+  return out;
+}
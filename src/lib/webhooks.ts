@@ -0,0 +1,30 @@
+// Outbound webhooks (see supabase/migrations/20251021030000_outbound_webhooks.sql). Endpoints
+// are managed in settings; deliveries are queued by triggers on orders and sent by the
+// deliver-webhooks edge function, signed with admin_settings.webhook_secret.
+
+import { supabase } from "@/integrations/supabase/client";
+import { OrderActionResult, toResult } from "@/lib/orderActions";
+
+export const WEBHOOK_EVENTS = [
+  "order.created",
+  "order.taken",
+  "order.completed",
+  "order.failed",
+  "order.released",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "order.created": "Created",
+  "order.taken": "Taken",
+  "order.completed": "Completed",
+  "order.failed": "Failed",
+  "order.released": "Released",
+};
+
+// Queues a failed delivery again with its original payload
+export async function replayWebhookDelivery(deliveryId: string): Promise<OrderActionResult> {
+  const { error } = await supabase.rpc("replay_webhook_delivery", { _delivery_id: deliveryId });
+  return toResult(error, "Failed to replay delivery");
+}
@@ -9,9 +9,11 @@ import RevenueChart from "@/components/admin/RevenueChart";
 import EditorPerformance from "@/components/admin/EditorPerformance";
 import MonthlyRevenueBar from "@/components/admin/MonthlyRevenueBar";
 import EditorsOverview from "@/components/admin/EditorsOverview";
+import ReviewQueue from "@/components/admin/ReviewQueue";
 import DetailedOrdersTable from "@/components/admin/DetailedOrdersTable";
 import CategoryPieChart from "@/components/admin/CategoryPieChart";
 import AdminRefreshButton from "@/components/admin/AdminRefreshButton";
+import PendingOrderChanges from "@/components/admin/PendingOrderChanges";
 import { Card, CardContent } from "@/components/ui/card";
 
 const Admin = () => {
@@ -90,6 +92,8 @@ const Admin = () => {
 
         <div className="space-y-8 animate-in fade-in duration-300">
           <MonthlyRevenueBar />
+          <ReviewQueue />
+          <PendingOrderChanges />
           <AdminStats />
           <RevenueChart />
           <CategoryPieChart />
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Loader2, Shield } from "lucide-react";
+import DashboardLayout from "@/components/layout/DashboardLayout";
+import ClientsDirectory from "@/components/clients/ClientsDirectory";
+import { Card, CardContent } from "@/components/ui/card";
+
+const Clients = () => {
+  const { clientId } = useParams();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  const checkAdminAccess = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", session.user.id)
+      .eq("role", "admin")
+      .maybeSingle();
+
+    setIsAdmin(Boolean(roleData));
+    setLoading(false);
+  }, [navigate]);
+
+  useEffect(() => {
+    checkAdminAccess();
+  }, [checkAdminAccess]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <DashboardLayout>
+        <Card className="glass-effect border-destructive/50">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Shield className="h-12 w-12 text-destructive mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground text-center">
+              You don't have admin permissions to access this page.
+            </p>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-10">
+        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+          <h1 className="text-4xl font-bold tracking-tight gradient-text">Clients</h1>
+          <p className="text-muted-foreground mt-2">
+            Everyone who has placed an order, with repeat business and lifetime value
+          </p>
+        </div>
+
+        <div className="animate-in fade-in duration-300">
+          <ClientsDirectory selectedClientId={clientId} />
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Clients;
@@ -5,6 +5,8 @@ import { User, Session } from "@supabase/supabase-js";
 import { Loader2 } from "lucide-react";
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import OrdersGrid from "@/components/orders/OrdersGrid";
+import OrderSlots from "@/components/orders/OrderSlots";
+import LastSyncedAt from "@/components/orders/LastSyncedAt";
 
 const Dashboard = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -70,11 +72,15 @@ const Dashboard = () => {
   return (
     <DashboardLayout>
       <div className="space-y-8">
-        <div>
-          <h1 className="text-4xl font-bold tracking-tight">Available Orders</h1>
-          <p className="text-muted-foreground mt-2">
-            Browse and take client requests from the team queue
-          </p>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Available Orders</h1>
+            <p className="text-muted-foreground mt-2">
+              Browse and take client requests from the team queue
+            </p>
+            <LastSyncedAt />
+          </div>
+          <OrderSlots userId={user.id} />
         </div>
         <OrdersGrid userId={user.id} />
       </div>
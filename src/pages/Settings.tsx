@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Loader2, Shield } from "lucide-react";
+import DashboardLayout from "@/components/layout/DashboardLayout";
+import AdminSettingsForm from "@/components/settings/AdminSettingsForm";
+import SettingsHistory from "@/components/settings/SettingsHistory";
+import SyncHistory from "@/components/settings/SyncHistory";
+import SheetSourcesManager from "@/components/settings/SheetSourcesManager";
+import EmailTemplatesManager from "@/components/settings/EmailTemplatesManager";
+import WebhooksManager from "@/components/settings/WebhooksManager";
+import { Card, CardContent } from "@/components/ui/card";
+
+const Settings = () => {
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [historyKey, setHistoryKey] = useState(0);
+  const navigate = useNavigate();
+
+  const checkAdminAccess = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", session.user.id)
+      .eq("role", "admin")
+      .maybeSingle();
+
+    setIsAdmin(Boolean(roleData));
+    setLoading(false);
+  }, [navigate]);
+
+  useEffect(() => {
+    checkAdminAccess();
+  }, [checkAdminAccess]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <DashboardLayout>
+        <Card className="glass-effect border-destructive/50">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Shield className="h-12 w-12 text-destructive mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground text-center">
+              You don't have admin permissions to access this page.
+            </p>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-10">
+        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+          <h1 className="text-4xl font-bold tracking-tight gradient-text">Settings</h1>
+          <p className="text-muted-foreground mt-2">
+            Revenue goals, notifications, webhooks, sheet sources, and integration secrets
+          </p>
+        </div>
+
+        <div className="space-y-8 animate-in fade-in duration-300">
+          <AdminSettingsForm onSaved={() => setHistoryKey((k) => k + 1)} />
+          <EmailTemplatesManager />
+          <WebhooksManager />
+          <SheetSourcesManager />
+          <SyncHistory />
+          <SettingsHistory refreshKey={historyKey} />
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,36 @@
+// Reference links for an order's brief, pulled from its sheet row. sync-sheet stores them
+// in orders.attachments as {kind: 'brief', type: 'link', url, source: 'sheet'} through
+// set_sheet_brief_links, which leaves deliverables and admin-uploaded brief files alone.
+
+import type { SheetFields } from "./sheet-mapping.ts";
+
+// More than this is almost certainly a pasted list we should not turn into previews
+const MAX_LINKS = 20;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]+/gi;
+
+// Trailing punctuation usually belongs to the sentence, not the URL
+function trimUrl(url: string): string {
+  return url.replace(/[.,;:!?)\]}]+$/, "");
+}
+
+export function extractLinks(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const out: string[] = [];
+  for (const match of text.match(URL_PATTERN) ?? []) {
+    const url = trimUrl(match);
+    try {
+      new URL(url);
+    } catch (_) {
+      continue;
+    }
+    out.push(url);
+  }
+  return out;
+}
+
+// The mapped references column first, then links mentioned in the description
+export function briefLinksFromFields(fields: SheetFields): string[] {
+  const links = [...extractLinks(fields.references), ...extractLinks(fields.description)];
+  return [...new Set(links)].slice(0, MAX_LINKS);
+}
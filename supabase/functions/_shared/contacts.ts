@@ -0,0 +1,63 @@
+// Client contact details are stored in public.order_contacts (visible to the assigned
+// editor and admins only) and stripped from raw_sheet_json, which every editor can read.
+
+import type { ColumnResolution, OrderField, SheetFields } from "./sheet-mapping.ts";
+
+export type Contact = {
+  email: string | null;
+  phone: string | null;
+  whatsapp: string | null;
+};
+
+export const CONTACT_FIELDS = ["email", "phone", "whatsapp"] as const satisfies readonly OrderField[];
+
+export function normalizeEmail(value: string | null | undefined): string | null {
+  const v = String(value ?? "").trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v) ? v : null;
+}
+
+// Keep a leading "+" and digits only; anything shorter than 7 digits is not a phone number
+export function normalizePhone(value: string | null | undefined): string | null {
+  const v = String(value ?? "").trim();
+  const digits = v.replace(/\D/g, "");
+  if (digits.length < 7) return null;
+  return v.startsWith("+") ? `+${digits}` : digits;
+}
+
+export function contactFromFields(fields: SheetFields): Contact {
+  return {
+    email: normalizeEmail(fields.email),
+    phone: normalizePhone(fields.phone),
+    whatsapp: normalizePhone(fields.whatsapp),
+  };
+}
+
+export function hasContact(contact: Contact): boolean {
+  return Boolean(contact.email || contact.phone || contact.whatsapp);
+}
+
+/**
+ * Return a copy of a raw sheet row with the contact columns removed. GViz rows keep
+ * their positional shape (the cell is nulled); OpenSheet rows lose the key.
+ */
+export function redactContacts(
+  raw: Record<string, unknown>,
+  columns: string[],
+  resolution: ColumnResolution,
+): Record<string, unknown> {
+  const labels = CONTACT_FIELDS.map((f) => resolution.columnFor[f]).filter((l): l is string => Boolean(l));
+  if (labels.length === 0) return raw;
+
+  if (Array.isArray(raw.c)) {
+    const cells = [...raw.c];
+    for (const label of labels) {
+      const idx = columns.indexOf(label);
+      if (idx >= 0 && idx < cells.length) cells[idx] = null;
+    }
+    return { ...raw, c: cells };
+  }
+
+  const copy = { ...raw };
+  for (const label of labels) delete copy[label];
+  return copy;
+}
@@ -0,0 +1,112 @@
+// Email sending for edge functions. The transport is picked from function secrets so the
+// same code can talk to a real SMTP server, a provider API, or a local SMTP catcher
+// (e.g. Inbucket/Mailpit from `supabase start`: EMAIL_TRANSPORT=smtp SMTP_HOST=localhost
+// SMTP_PORT=54325 SMTP_TLS=false).
+//
+//   EMAIL_TRANSPORT  smtp | resend | log   (default: log, which only prints the message)
+//   EMAIL_FROM       sender address, e.g. "Orders <orders@example.com>"
+//   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_TLS (true|false)
+//   RESEND_API_KEY
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export type EmailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+};
+
+export function smtpTransport(options: SmtpOptions): EmailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: options.host,
+          port: options.port,
+          tls: options.tls,
+          auth: options.username ? { username: options.username, password: options.password ?? "" } : undefined,
+        },
+      });
+      try {
+        await client.send({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+export function resendTransport(apiKey: string): EmailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ from: message.from, to: message.to, subject: message.subject, text: message.text }),
+      });
+      if (!res.ok) throw new Error(`Resend API ${res.status}: ${await res.text()}`);
+    },
+  };
+}
+
+export function logTransport(): EmailTransport {
+  return {
+    name: "log",
+    send(message) {
+      console.log(`[email] to=${message.to.join(",")} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+      return Promise.resolve();
+    },
+  };
+}
+
+export function transportFromEnv(get: (name: string) => string | undefined): EmailTransport {
+  const kind = (get("EMAIL_TRANSPORT") ?? "log").toLowerCase();
+  if (kind === "smtp") {
+    const host = get("SMTP_HOST");
+    if (!host) throw new Error("EMAIL_TRANSPORT=smtp needs SMTP_HOST");
+    return smtpTransport({
+      host,
+      port: Number(get("SMTP_PORT") ?? 587),
+      tls: (get("SMTP_TLS") ?? "true").toLowerCase() !== "false",
+      username: get("SMTP_USER"),
+      password: get("SMTP_PASS"),
+    });
+  }
+  if (kind === "resend") {
+    const apiKey = get("RESEND_API_KEY");
+    if (!apiKey) throw new Error("EMAIL_TRANSPORT=resend needs RESEND_API_KEY");
+    return resendTransport(apiKey);
+  }
+  if (kind === "log") return logTransport();
+  throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+}
+
+// Fill {{name}} placeholders. Unknown names become empty so a typo never leaks braces into mail.
+// Keep in sync with src/lib/emailTemplates.ts, which renders the preview in settings.
+export function renderTemplate(template: string, vars: Record<string, string | number | null | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = vars[name];
+    return value === null || value === undefined ? "" : String(value);
+  });
+}
@@ -0,0 +1,74 @@
+// Turns free-text intake fields (budget, timeline, service, description) into order columns.
+// Shared by sync-sheet and intake-order so sheet rows and pushed orders are read the same way.
+
+import type { SheetFields } from "./sheet-mapping.ts";
+
+export type OrderDefaults = {
+  default_price: number | null;
+  default_category: string | null;
+};
+
+export type OrderDetails = {
+  client_name: string;
+  requirement_text: string;
+  price: number;
+  due_date: string | null;
+};
+
+export function parseBudgetToNumber(budget: string | null | undefined): number {
+  if (!budget) return 0;
+  let s = String(budget).toLowerCase().trim();
+  // normalize dashes and delimiters
+  s = s.replace(/[–—−]/g, "-");
+  // regex to capture numbers with optional thousand separators/decimals and optional suffix
+  const re = /(\d{1,3}(?:[,\s]\d{2,3})+|\d+(?:\.\d+)?)\s*(k|m|l|lac|lakh|lakhs|cr|crore)?/g;
+  const values: number[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(s)) !== null) {
+    let numStr = m[1];
+    const suffix = m[2] || "";
+    // remove commas/spaces in digit groups
+    numStr = numStr.replace(/[\s,]/g, "");
+    let val = parseFloat(numStr);
+    if (!isFinite(val)) continue;
+    const suf = suffix.toLowerCase();
+    if (suf === "k") val *= 1_000;
+    else if (suf === "m") val *= 1_000_000;
+    else if (suf === "l" || suf === "lac" || suf === "lakh" || suf === "lakhs") val *= 100_000;
+    else if (suf === "cr" || suf === "crore") val *= 10_000_000;
+    values.push(Math.round(val));
+  }
+  if (values.length === 0) return 0;
+  // If a range like 1500 - 2500 is present, pick the higher bound
+  return Math.max(...values);
+}
+
+function addDays(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return d.toISOString();
+}
+
+export function mapTimelineToDueDate(timeline: string | null | undefined): string | null {
+  if (!timeline) return null;
+  const t = timeline.toLowerCase();
+  if (t.includes("urgent") || t.includes("1-3")) return addDays(3);
+  if (t.includes("week") || t.includes("3-7")) return addDays(7);
+  if (t.includes("month") || t.includes("1-4")) return addDays(28);
+  return null;
+}
+
+// null when there is nothing to work on (no service and no description)
+export function orderDetailsFromFields(fields: SheetFields, defaults: OrderDefaults): OrderDetails | null {
+  const service = fields.service ?? "";
+  const desc = fields.description ?? "";
+  if (!service && !desc) return null;
+
+  const category = service || defaults.default_category || "";
+  return {
+    client_name: fields.client_name || "Client",
+    requirement_text: [category, desc].filter(Boolean).join(" — "),
+    price: parseBudgetToNumber(fields.budget) || Number(defaults.default_price ?? 0),
+    due_date: mapTimelineToDueDate(fields.timeline),
+  };
+}
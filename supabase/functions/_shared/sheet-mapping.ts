@@ -0,0 +1,87 @@
+// Declarative mapping from sheet column labels to order fields.
+// Keep in sync with src/lib/sheetMapping.ts, which the UI uses to read raw_sheet_json.
+
+export const ORDER_FIELDS = [
+  "client_name",
+  "email",
+  "phone",
+  "whatsapp",
+  "service",
+  "description",
+  "budget",
+  "timeline",
+  "timestamp",
+  "references",
+] as const;
+
+export type OrderField = (typeof ORDER_FIELDS)[number];
+
+export type ColumnMapping = Partial<Record<OrderField, string | null>>;
+
+export type SheetFields = Record<OrderField, string | null>;
+
+// Used for fields that have no explicit mapping: first column whose label matches wins
+const FIELD_KEYWORDS: Record<OrderField, RegExp> = {
+  client_name: /full name|^name$/i,
+  email: /e-?mail/i,
+  phone: /^(?!.*whats\s*app).*(phone|mobile)/i,
+  whatsapp: /whats\s*app/i,
+  service: /service/i,
+  description: /describe|description/i,
+  budget: /budget/i,
+  timeline: /timeline/i,
+  timestamp: /^timestamp$/i,
+  references: /reference|attachment|sample/i,
+};
+
+export type ColumnResolution = {
+  // field -> column label actually used
+  columnFor: Partial<Record<OrderField, string>>;
+  // fields mapped to a label that is not in the sheet
+  missing: { field: OrderField; label: string }[];
+  // fields with no mapping and no matching column
+  unmappedFields: OrderField[];
+  // sheet columns no field reads from
+  unmappedColumns: string[];
+};
+
+export function resolveColumns(mapping: ColumnMapping | null | undefined, columns: string[]): ColumnResolution {
+  const present = new Set(columns);
+  const columnFor: Partial<Record<OrderField, string>> = {};
+  const missing: { field: OrderField; label: string }[] = [];
+  const unmappedFields: OrderField[] = [];
+
+  for (const field of ORDER_FIELDS) {
+    const label = mapping?.[field]?.trim();
+    if (label) {
+      if (present.has(label)) columnFor[field] = label;
+      else missing.push({ field, label });
+      continue;
+    }
+    const used = new Set(Object.values(columnFor));
+    const guess = columns.find((c) => c && !used.has(c) && FIELD_KEYWORDS[field].test(c));
+    if (guess) columnFor[field] = guess;
+    else unmappedFields.push(field);
+  }
+
+  const used = new Set(Object.values(columnFor));
+  const unmappedColumns = columns.filter((c) => c && !used.has(c));
+  return { columnFor, missing, unmappedFields, unmappedColumns };
+}
+
+export function extractFields(get: (label: string) => unknown, resolution: ColumnResolution): SheetFields {
+  const out = {} as SheetFields;
+  for (const field of ORDER_FIELDS) {
+    const label = resolution.columnFor[field];
+    const value = label ? get(label) : null;
+    out[field] = value == null || String(value).trim() === "" ? null : String(value).trim();
+  }
+  return out;
+}
+
+export function describeResolution(resolution: ColumnResolution): string[] {
+  return [
+    ...resolution.missing.map((m) => `${m.field}: column "${m.label}" not found in sheet`),
+    ...resolution.unmappedFields.map((f) => `${f}: no column mapped`),
+  ];
+}
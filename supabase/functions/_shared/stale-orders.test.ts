@@ -0,0 +1,69 @@
+// deno test supabase/functions/_shared/stale-orders.test.ts
+import { assertEquals } from "https://deno.land/std@0.223.0/assert/mod.ts";
+import { type StaleOrder, type StalePolicy, planStaleOrders } from "./stale-orders.ts";
+
+const policy: StalePolicy = { enabled: true, warningHours: 48, graceHours: 24 };
+const now = new Date("2025-10-20T12:00:00Z");
+
+function hoursAgo(hours: number): string {
+  return new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+function order(overrides: Partial<StaleOrder>): StaleOrder {
+  return {
+    id: "order-1",
+    taken_by: "editor-1",
+    taken_at: hoursAgo(10),
+    last_activity_at: null,
+    stale_warned_at: null,
+    ...overrides,
+  };
+}
+
+Deno.test("leaves orders with recent activity alone", () => {
+  const plan = planStaleOrders([order({ taken_at: hoursAgo(72), last_activity_at: hoursAgo(47) })], policy, now);
+  assertEquals(plan, { warn: [], release: [] });
+});
+
+Deno.test("warns once the warning window has passed", () => {
+  const plan = planStaleOrders([order({ taken_at: hoursAgo(48) })], policy, now);
+  assertEquals(plan, { warn: ["order-1"], release: [] });
+});
+
+Deno.test("waits out the grace period after a warning", () => {
+  const plan = planStaleOrders([order({ taken_at: hoursAgo(60), stale_warned_at: hoursAgo(12) })], policy, now);
+  assertEquals(plan, { warn: [], release: [] });
+});
+
+Deno.test("releases after the grace period with the idle time in the reason", () => {
+  const plan = planStaleOrders([order({ taken_at: hoursAgo(72), stale_warned_at: hoursAgo(24) })], policy, now);
+  assertEquals(plan.warn, []);
+  assertEquals(plan.release, [
+    {
+      id: "order-1",
+      takenBy: "editor-1",
+      reason: "Released automatically: no activity for 72 hours and no response within 24 hours of the warning",
+    },
+  ]);
+});
+
+Deno.test("activity after the warning starts a new window", () => {
+  const responded = order({ taken_at: hoursAgo(100), stale_warned_at: hoursAgo(30), last_activity_at: hoursAgo(20) });
+  assertEquals(planStaleOrders([responded], policy, now), { warn: [], release: [] });
+
+  const idleAgain = order({ taken_at: hoursAgo(100), stale_warned_at: hoursAgo(80), last_activity_at: hoursAgo(50) });
+  assertEquals(planStaleOrders([idleAgain], policy, now), { warn: ["order-1"], release: [] });
+});
+
+Deno.test("does nothing when expiry is disabled", () => {
+  const orders = [
+    order({ id: "order-1", taken_at: hoursAgo(48) }),
+    order({ id: "order-2", taken_at: hoursAgo(72), stale_warned_at: hoursAgo(24) }),
+  ];
+  assertEquals(planStaleOrders(orders, { ...policy, enabled: false }, now), { warn: [], release: [] });
+});
+
+Deno.test("skips orders with no activity timestamps", () => {
+  const plan = planStaleOrders([order({ taken_at: null, last_activity_at: "not a date" })], policy, now);
+  assertEquals(plan, { warn: [], release: [] });
+});
@@ -0,0 +1,68 @@
+// Decides which taken orders get a stale warning and which are released back to the pool.
+// Pure: the caller passes the current time, so the policy can be exercised without a clock.
+
+export type StaleOrder = {
+  id: string;
+  taken_by: string | null;
+  taken_at: string | null;
+  last_activity_at: string | null;
+  stale_warned_at: string | null;
+};
+
+export type StalePolicy = {
+  // admin_settings.stale_expiry_enabled; nothing is warned or released when off
+  enabled: boolean;
+  // Hours without activity before the editor is warned
+  warningHours: number;
+  // Hours after the warning before the order is released
+  graceHours: number;
+};
+
+export type StalePlan = {
+  warn: string[];
+  release: { id: string; takenBy: string | null; reason: string }[];
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toTime(value: string | null): number | null {
+  if (!value) return null;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? null : t;
+}
+
+export function lastActivity(order: StaleOrder): number | null {
+  const times = [toTime(order.taken_at), toTime(order.last_activity_at)].filter((t): t is number => t !== null);
+  return times.length ? Math.max(...times) : null;
+}
+
+export function planStaleOrders(orders: StaleOrder[], policy: StalePolicy, now: Date): StalePlan {
+  const plan: StalePlan = { warn: [], release: [] };
+  if (!policy.enabled) return plan;
+  const nowMs = now.getTime();
+
+  for (const order of orders) {
+    const active = lastActivity(order);
+    if (active === null) continue;
+    const warned = toTime(order.stale_warned_at);
+
+    // A warning only counts if nothing happened on the order after it was sent
+    if (warned !== null && warned >= active) {
+      if (nowMs - warned >= policy.graceHours * HOUR_MS) {
+        const idleHours = Math.floor((nowMs - active) / HOUR_MS);
+        plan.release.push({
+          id: order.id,
+          takenBy: order.taken_by,
+          reason: `Released automatically: no activity for ${idleHours} hours and no response within ${policy.graceHours} hours of the warning`,
+        });
+      }
+      continue;
+    }
+
+    if (nowMs - active >= policy.warningHours * HOUR_MS) {
+      plan.warn.push(order.id);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,67 @@
+// Signing and retry policy for outbound webhooks (deliver-webhooks), and verification of
+// orders pushed to intake-order, which are signed the same way.
+//
+// Receivers verify a delivery by recomputing the signature from the raw request body:
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" keyed by the secret>
+// and should reject timestamps that are too old. X-Webhook-Delivery is stable across retries
+// and replays, so it can be used to ignore duplicates.
+
+export type WebhookEvent = "order.created" | "order.taken" | "order.completed" | "order.failed" | "order.released";
+
+// Attempts per delivery before it is marked failed (a replay starts a fresh set)
+export const MAX_ATTEMPTS = 6;
+
+const MINUTE_MS = 60 * 1000;
+
+// 1, 2, 4, 8, 16 minutes after attempts 1..5
+export function retryDelayMs(attempts: number): number {
+  return MINUTE_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function signatureHeader(secret: string, body: string, timestamp: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+// Compares without stopping at the first difference, so timing does not leak the secret
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// Signed requests older than this are rejected so a captured request cannot be replayed later
+const SIGNATURE_TOLERANCE_SEC = 5 * 60;
+
+// Checks an inbound X-Webhook-Signature made the same way as signatureHeader
+export async function verifySignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  nowSec: number,
+): Promise<boolean> {
+  if (!header) return false;
+  const parts = Object.fromEntries(
+    header.split(",").map((p) => {
+      const i = p.indexOf("=");
+      return [p.slice(0, i).trim(), p.slice(i + 1).trim()];
+    }),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(nowSec - timestamp) > SIGNATURE_TOLERANCE_SEC) return false;
+  return safeEqual(await signatureHeader(secret, body, timestamp), `t=${timestamp},v1=${parts.v1}`);
+}
@@ -0,0 +1,146 @@
+// Deno Deploy / Supabase Edge Function: send queued outbound webhooks
+// Called with the service role key after orders change, after a replay, and every minute by
+// pg_cron while deliveries are due (see 20251021030000_outbound_webhooks.sql). Each claimed
+// delivery is signed with admin_settings.webhook_secret and POSTed to its endpoint; failures
+// are retried with backoff until MAX_ATTEMPTS, then marked failed for an admin to replay.
+// Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to be configured as function secrets (set by Supabase).
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { MAX_ATTEMPTS, retryDelayMs, signatureHeader } from "../_shared/webhooks.ts";
+
+type DeliveryRow = {
+  id: string;
+  endpoint_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  created_at: string;
+};
+
+type Outcome = { ok: true; status: number } | { ok: false; status: number | null; error: string };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+// Claimed per run; anything left over is picked up by the next cron tick
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...corsHeaders },
+  });
+}
+
+async function post(url: string, secret: string, delivery: DeliveryRow): Promise<Outcome> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    created_at: delivery.created_at,
+    data: delivery.payload,
+  });
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Signature": await signatureHeader(secret, body, Math.floor(Date.now() / 1000)),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    // Any 2xx counts as delivered; the start of an error response goes into the log
+    const text = await res.text().catch(() => "");
+    if (res.ok) return { ok: true, status: res.status };
+    return { ok: false, status: res.status, error: `HTTP ${res.status}${text ? `: ${text.slice(0, 300)}` : ""}` };
+  } catch (e) {
+    return { ok: false, status: null, error: (e as Error).message };
+  }
+}
+
+async function record(supabase: SupabaseClient, delivery: DeliveryRow, outcome: Outcome): Promise<string> {
+  const now = new Date();
+  const update = outcome.ok
+    ? { status: "delivered", response_status: outcome.status, error: null, delivered_at: now.toISOString() }
+    : delivery.attempts >= MAX_ATTEMPTS
+      ? { status: "failed", response_status: outcome.status, error: outcome.error }
+      : {
+        response_status: outcome.status,
+        error: outcome.error,
+        next_attempt_at: new Date(now.getTime() + retryDelayMs(delivery.attempts)).toISOString(),
+      };
+  const { error } = await supabase.from("webhook_deliveries").update(update).eq("id", delivery.id);
+  if (error) throw error;
+  return outcome.ok ? "delivered" : "status" in update ? "failed" : "retrying";
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return json({ error: "Missing Supabase env" }, 500);
+    }
+    // Internal only: the queue is filled by database triggers, never by callers
+    if (req.headers.get("authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return json({ ok: false, error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+
+    const { data: claimed, error: claimErr } = await supabase.rpc("claim_webhook_deliveries", { _limit: BATCH_SIZE });
+    if (claimErr) throw claimErr;
+    const deliveries = (claimed ?? []) as DeliveryRow[];
+    if (deliveries.length === 0) {
+      return json({ ok: true, delivered: 0, retrying: 0, failed: 0 });
+    }
+
+    const { data: settings, error: settingsErr } = await supabase
+      .from("admin_settings")
+      .select("webhook_secret")
+      .limit(1)
+      .maybeSingle();
+    if (settingsErr) throw settingsErr;
+    const secret = settings?.webhook_secret ?? null;
+
+    const endpointIds = [...new Set(deliveries.map((d) => d.endpoint_id))];
+    const { data: endpoints, error: endpointsErr } = await supabase
+      .from("webhook_endpoints")
+      .select("id, url, enabled")
+      .in("id", endpointIds);
+    if (endpointsErr) throw endpointsErr;
+    const endpointById = new Map((endpoints ?? []).map((e) => [e.id, e]));
+
+    const counts: Record<string, number> = { delivered: 0, retrying: 0, failed: 0 };
+    for (const delivery of deliveries) {
+      const endpoint = endpointById.get(delivery.endpoint_id);
+      let outcome: Outcome;
+      if (!secret) {
+        // Unsigned payloads could be forged, so nothing goes out until a secret exists
+        outcome = { ok: false, status: null, error: "Webhook secret is not set" };
+      } else if (!endpoint?.enabled) {
+        outcome = { ok: false, status: null, error: "Endpoint is disabled" };
+      } else {
+        outcome = await post(endpoint.url, secret, delivery);
+      }
+      counts[await record(supabase, delivery, outcome)]++;
+    }
+
+    return json({ ok: true, ...counts });
+  } catch (e) {
+    return json({ ok: false, error: (e as Error).message }, 500);
+  }
+});
@@ -0,0 +1,105 @@
+// Deno Deploy / Supabase Edge Function: warn and release stale taken orders
+// Runs on a schedule (pg_cron, see 20251020180000_stale_order_expiry.sql). Orders taken with no
+// activity for admin_settings.stale_warning_hours get a warning; if the editor does not respond
+// within stale_grace_hours, the order goes back to available with the reason in assignments.
+// Revisions (revision_count > 0) are left alone: they belong to the editor who delivered the order.
+// Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to be configured as function secrets (set by Supabase).
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { type StaleOrder, planStaleOrders } from "../_shared/stale-orders.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(
+        JSON.stringify({ error: "Missing Supabase env" }),
+        { status: 500, headers: { "content-type": "application/json", ...corsHeaders } },
+      );
+    }
+    // Cron only: anyone else could warn editors and release their orders
+    if (req.headers.get("authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Unauthorized" }),
+        { status: 401, headers: { "content-type": "application/json", ...corsHeaders } },
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+
+    const { data: settings, error: settingsErr } = await supabase
+      .from("admin_settings")
+      .select("stale_expiry_enabled, stale_warning_hours, stale_grace_hours")
+      .limit(1)
+      .maybeSingle();
+    if (settingsErr) throw settingsErr;
+    if (!settings?.stale_expiry_enabled) {
+      return new Response(
+        JSON.stringify({ ok: true, skipped: "disabled", warned: 0, released: 0 }),
+        { headers: { "content-type": "application/json", ...corsHeaders } },
+      );
+    }
+
+    const { data: orders, error: ordersErr } = await supabase
+      .from("orders")
+      .select("id, taken_by, taken_at, last_activity_at, stale_warned_at")
+      .eq("status", "taken")
+      .eq("revision_count", 0);
+    if (ordersErr) throw ordersErr;
+
+    const now = new Date();
+    const plan = planStaleOrders((orders ?? []) as StaleOrder[], {
+      enabled: settings.stale_expiry_enabled,
+      warningHours: settings.stale_warning_hours,
+      graceHours: settings.stale_grace_hours,
+    }, now);
+
+    let warned = 0;
+    if (plan.warn.length > 0) {
+      const { count, error: warnErr } = await supabase
+        .from("orders")
+        .update({ stale_warned_at: now.toISOString() }, { count: "exact" })
+        .in("id", plan.warn)
+        .eq("status", "taken");
+      if (warnErr) throw warnErr;
+      warned = count ?? 0;
+    }
+
+    // Re-checked under a row lock in release_stale_order: the editor may have responded meanwhile
+    let released = 0;
+    const errors: string[] = [];
+    for (const r of plan.release) {
+      const { data: done, error: relErr } = await supabase.rpc("release_stale_order", {
+        _order_id: r.id,
+        _taken_by: r.takenBy,
+        _reason: r.reason,
+      });
+      if (relErr) errors.push(`${r.id}: ${relErr.message}`);
+      else if (done) released += 1;
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, warned, released, errors }),
+      { headers: { "content-type": "application/json", ...corsHeaders } },
+    );
+  } catch (e) {
+    return new Response(
+      JSON.stringify({ ok: false, error: (e as Error).message }),
+      { status: 500, headers: { "content-type": "application/json", ...corsHeaders } },
+    );
+  }
+});
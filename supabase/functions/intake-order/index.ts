@@ -0,0 +1,338 @@
+// Deno Deploy / Supabase Edge Function: push-based order intake -> public.orders
+// Accepts orders POSTed by an Apps Script trigger, a website form, or automation tools, so new
+// orders appear without waiting for a sheet sync. The body is one order or { "orders": [...] }:
+//   { "external_id": "form-123", "client_name": "...", "email": "...", "phone": "...",
+//     "whatsapp": "...", "service": "...", "description": "...", "budget": "₹5k - 8k",
+//     "timeline": "Within a week", "references": "https://..." }
+// Budget and timeline are parsed exactly like sheet rows (../_shared/order-parsing.ts). Orders
+// are keyed by external_id: sending one again updates its details but never its status. As in
+// sync-sheet, an order an editor is working on keeps its brief; the changed fields go to
+// record_order_changes for an admin to review.
+// Each accepted request is recorded in public.sync_runs with trigger "webhook".
+//
+// Requests must be signed with admin_settings.webhook_secret in an X-Webhook-Signature header
+// (see ../_shared/webhooks.ts). JWT verification is off for this function (supabase/config.toml);
+// the signature replaces it.
+// Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to be configured as function secrets (set by Supabase).
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { ORDER_FIELDS, type SheetFields } from "../_shared/sheet-mapping.ts";
+import { CONTACT_FIELDS, type Contact, contactFromFields, hasContact } from "../_shared/contacts.ts";
+import { briefLinksFromFields } from "../_shared/brief-links.ts";
+import { type OrderDetails, orderDetailsFromFields } from "../_shared/order-parsing.ts";
+import { verifySignature } from "../_shared/webhooks.ts";
+
+type IntakeRecord = {
+  externalId: string;
+  details: OrderDetails;
+  contact: Contact;
+  briefLinks: string[];
+  raw: Record<string, string>;
+};
+
+type Rejected = { index: number; external_id: string | null; error: string };
+
+type ExistingOrder = {
+  id: string;
+  external_id: string;
+  status: string;
+  client_name: string;
+  requirement_text: string;
+  price: number;
+  due_date: string | null;
+  raw_sheet_json: Record<string, unknown> | null;
+};
+
+// A field whose pushed value differs from an order that holds its brief
+type BriefChange = {
+  order_id: string;
+  field: "client_name" | "requirement_text" | "price" | "due_date";
+  old_value: string | null;
+  new_value: string | null;
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-webhook-signature",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Per request; larger backfills should be split
+const MAX_ORDERS = 100;
+const MAX_EXTERNAL_ID_LENGTH = 200;
+
+// Orders an editor is working on keep their brief when the pushed order changes
+const HELD_STATUSES = ["taken", "in_review", "completed"];
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...corsHeaders },
+  });
+}
+
+function toText(value: unknown): string | null {
+  if (Array.isArray(value)) return toText(value.map((v) => toText(v)).filter(Boolean).join("\n"));
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const s = String(value).trim();
+  return s === "" ? null : s;
+}
+
+function parseOrder(input: unknown): IntakeRecord | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return "Each order must be a JSON object";
+  const body = input as Record<string, unknown>;
+  const externalId = toText(body.external_id);
+  if (!externalId) return "external_id is required";
+  if (externalId.length > MAX_EXTERNAL_ID_LENGTH) return "external_id is too long";
+
+  const fields = Object.fromEntries(ORDER_FIELDS.map((f) => [f, toText(body[f])])) as SheetFields;
+  const details = orderDetailsFromFields(fields, { default_price: null, default_category: null });
+  if (!details) return "service or description is required";
+
+  // Kept for the order details view; contact fields live in order_contacts only
+  const raw: Record<string, string> = {};
+  for (const f of ORDER_FIELDS) {
+    const value = fields[f];
+    if (value && !(CONTACT_FIELDS as readonly string[]).includes(f)) raw[f] = value;
+  }
+  return { externalId, details, contact: contactFromFields(fields), briefLinks: briefLinksFromFields(fields), raw };
+}
+
+// due_date is recomputed from the timeline on every push, so it only counts as changed when the
+// timeline text itself changed since the stored request
+function briefChanges(existing: ExistingOrder, next: IntakeRecord): BriefChange[] {
+  const changes: BriefChange[] = [];
+  for (const field of ["client_name", "requirement_text", "price"] as const) {
+    if (String(existing[field]) !== String(next.details[field])) {
+      changes.push({ order_id: existing.id, field, old_value: String(existing[field]), new_value: String(next.details[field]) });
+    }
+  }
+  if ((existing.raw_sheet_json?.timeline ?? null) !== (next.raw.timeline ?? null)) {
+    changes.push({ order_id: existing.id, field: "due_date", old_value: existing.due_date, new_value: next.details.due_date });
+  }
+  return changes;
+}
+
+async function finishRun(
+  supabase: SupabaseClient,
+  runId: string,
+  values: { status: "succeeded" | "failed"; inserted?: number; updated?: number; error: string | null },
+): Promise<void> {
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({ ...values, finished_at: new Date().toISOString() })
+    .eq("id", runId);
+  if (error) console.error("Could not record sync run", error);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ ok: false, error: "Use POST" }, 405);
+  }
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return json({ error: "Missing Supabase env" }, 500);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+  let runId: string | null = null;
+
+  try {
+    const { data: settings, error: settingsErr } = await supabase
+      .from("admin_settings")
+      .select("webhook_secret")
+      .limit(1)
+      .maybeSingle();
+    if (settingsErr) throw settingsErr;
+    const secret = settings?.webhook_secret;
+    if (!secret) {
+      return json({ ok: false, error: "Order intake is not configured: generate a webhook secret in Settings" }, 503);
+    }
+
+    // The signature covers the exact bytes sent, so read the body as text before parsing it
+    const rawBody = await req.text();
+    const authorized = await verifySignature(
+      secret,
+      rawBody,
+      req.headers.get("x-webhook-signature"),
+      Math.floor(Date.now() / 1000),
+    );
+    if (!authorized) {
+      return json({ ok: false, error: "Invalid or missing webhook signature" }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch (_) {
+      return json({ ok: false, error: "Body must be JSON" }, 400);
+    }
+    const items = body && typeof body === "object" && Array.isArray((body as { orders?: unknown }).orders)
+      ? (body as { orders: unknown[] }).orders
+      : [body];
+    if (items.length === 0) return json({ ok: false, error: "No orders in request" }, 400);
+    if (items.length > MAX_ORDERS) return json({ ok: false, error: `At most ${MAX_ORDERS} orders per request` }, 413);
+
+    // Shows up in the sync history next to sheet syncs
+    const { data: run, error: runErr } = await supabase
+      .from("sync_runs")
+      .insert({ trigger: "webhook", total_rows: items.length })
+      .select("id")
+      .single();
+    if (runErr) throw runErr;
+    runId = run.id;
+
+    // A repeated external_id in one request: the last copy wins
+    const byExternalId = new Map<string, IntakeRecord>();
+    const rejected: Rejected[] = [];
+    items.forEach((item, index) => {
+      const parsed = parseOrder(item);
+      if (typeof parsed === "string") {
+        const externalId = item && typeof item === "object" ? toText((item as Record<string, unknown>).external_id) : null;
+        rejected.push({ index, external_id: externalId, error: parsed });
+      } else {
+        byExternalId.set(parsed.externalId, parsed);
+      }
+    });
+    const records = [...byExternalId.values()];
+    const rejectedSummary = rejected.length > 0
+      ? `${rejected.length} order(s) rejected: ${rejected.map((r) => r.error).join("; ")}`
+      : null;
+    if (records.length === 0) {
+      await finishRun(supabase, runId, { status: "failed", error: rejectedSummary });
+      return json({ ok: false, error: "No valid orders in request", rejected }, 400);
+    }
+
+    const externalIds = records.map((r) => r.externalId);
+    const { data: existing, error: selErr } = await supabase
+      .from("orders")
+      .select("id, external_id, status, client_name, requirement_text, price, due_date, raw_sheet_json")
+      .eq("source", "webhook")
+      .in("external_id", externalIds);
+    if (selErr) throw selErr;
+    const existingOrders = new Map(((existing ?? []) as ExistingOrder[]).map((r) => [r.external_id, r]));
+    const orderIds = new Map([...existingOrders.values()].map((r) => [r.external_id, r.id]));
+
+    // ignoreDuplicates: a concurrent request for the same order inserts it once; ours becomes an update
+    const newRecords = records.filter((r) => !orderIds.has(r.externalId));
+    const newOrderIds: string[] = [];
+    if (newRecords.length > 0) {
+      const { data: insertedRows, error: insErr } = await supabase
+        .from("orders")
+        .upsert(
+          newRecords.map((r) => ({
+            ...r.details,
+            status: "available",
+            source: "webhook",
+            external_id: r.externalId,
+            raw_sheet_json: r.raw,
+          })),
+          { onConflict: "source,external_id", ignoreDuplicates: true },
+        )
+        .select("id, external_id");
+      if (insErr) throw insErr;
+      for (const row of insertedRows ?? []) {
+        orderIds.set(row.external_id, row.id);
+        newOrderIds.push(row.id);
+      }
+    }
+
+    // Update existing orders: only the details, never status/taken_by. Orders that hold their
+    // brief only get the stored request; their field changes wait for an admin.
+    const inserted = new Set(newOrderIds);
+    const heldChanges: BriefChange[] = [];
+    let updated = 0;
+    for (const r of records) {
+      const id = orderIds.get(r.externalId);
+      if (id && inserted.has(id)) continue;
+      const existingOrder = existingOrders.get(r.externalId);
+      const held = existingOrder !== undefined && HELD_STATUSES.includes(existingOrder.status);
+      if (held) heldChanges.push(...briefChanges(existingOrder, r));
+      const { data: row, error: upErr } = await supabase
+        .from("orders")
+        .update({ ...(held ? {} : r.details), raw_sheet_json: r.raw, updated_at: new Date().toISOString() })
+        .eq("source", "webhook")
+        .eq("external_id", r.externalId)
+        .select("id")
+        .maybeSingle();
+      if (upErr) throw upErr;
+      if (row) {
+        orderIds.set(r.externalId, row.id);
+        updated += 1;
+      }
+    }
+    let conflicts = 0;
+    if (heldChanges.length > 0) {
+      const { data: recorded, error: changeErr } = await supabase.rpc("record_order_changes", { _rows: heldChanges });
+      if (changeErr) throw changeErr;
+      conflicts = recorded ?? 0;
+    }
+
+    // Contact details live in order_contacts, readable only by the assignee and admins
+    const withContact = records.filter((r) => hasContact(r.contact) && orderIds.has(r.externalId));
+    if (withContact.length > 0) {
+      const { error: contactErr } = await supabase
+        .from("order_contacts")
+        .upsert(
+          withContact.map((r) => ({ order_id: orderIds.get(r.externalId)!, ...r.contact })),
+          { onConflict: "order_id" },
+        );
+      if (contactErr) throw contactErr;
+
+      const { error: linkErr } = await supabase.rpc("link_order_clients", {
+        _rows: withContact.map((r) => ({
+          order_id: orderIds.get(r.externalId),
+          name: r.details.client_name,
+          ...r.contact,
+        })),
+      });
+      if (linkErr) throw linkErr;
+    }
+
+    // Same handling as sheet rows: the pushed links replace the previous ones
+    const linkRows = records
+      .filter((r) => orderIds.has(r.externalId))
+      .map((r) => ({ order_id: orderIds.get(r.externalId), links: r.briefLinks }));
+    const { error: briefErr } = await supabase.rpc("set_sheet_brief_links", { _rows: linkRows });
+    if (briefErr) throw briefErr;
+
+    // Email the admins about new orders; a mail problem must not fail the intake
+    if (newOrderIds.length > 0) {
+      const { error: notifyErr } = await supabase.functions.invoke("send-notification", {
+        body: { event: "orders_synced", order_ids: newOrderIds },
+      });
+      if (notifyErr) console.error("send-notification failed", notifyErr);
+    }
+
+    await finishRun(supabase, runId, {
+      status: "succeeded",
+      inserted: newOrderIds.length,
+      updated,
+      error: rejectedSummary,
+    });
+
+    return json({
+      ok: true,
+      inserted: newOrderIds.length,
+      updated,
+      conflicts,
+      rejected,
+      orders: records.map((r) => ({
+        external_id: r.externalId,
+        id: orderIds.get(r.externalId) ?? null,
+        result: inserted.has(orderIds.get(r.externalId) ?? "") ? "inserted" : "updated",
+      })),
+    });
+  } catch (e) {
+    if (runId) await finishRun(supabase, runId, { status: "failed", error: (e as Error).message });
+    return json({ ok: false, error: (e as Error).message }, 500);
+  }
+});
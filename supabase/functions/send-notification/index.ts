@@ -0,0 +1,244 @@
+// Deno Deploy / Supabase Edge Function: email admins about order events
+// Called with the service role key by the notify_order_event trigger (order_taken,
+// order_completed, order_failed) and by sync-sheet (orders_synced). Recipients come from
+// admin_settings.notification_emails and the text from public.email_templates; every send is
+// recorded in public.email_deliveries. An approval that takes the month's revenue past
+// admin_settings.revenue_threshold_default also sends revenue_threshold, once per month.
+// Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (set by Supabase) plus the EMAIL_*
+// secrets described in ../_shared/email.ts.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { type EmailTransport, renderTemplate, transportFromEnv } from "../_shared/email.ts";
+
+type EmailEvent = "orders_synced" | "order_taken" | "order_completed" | "order_failed" | "revenue_threshold";
+
+const ORDER_EVENTS = new Set<EmailEvent>(["order_taken", "order_completed", "order_failed"]);
+
+type Vars = Record<string, string | number | null>;
+
+type Notification = {
+  event: EmailEvent;
+  orderId: string | null;
+  dedupeKey: string | null;
+  vars: Vars;
+};
+
+type Delivery = {
+  event: EmailEvent;
+  status: "sent" | "failed" | "skipped";
+  reason?: string;
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...corsHeaders },
+  });
+}
+
+function formatAmount(value: number | null | undefined): string {
+  return Number(value ?? 0).toLocaleString("en-IN");
+}
+
+async function profileName(supabase: SupabaseClient, userId: string | null): Promise<string> {
+  if (!userId) return "An editor";
+  const { data } = await supabase.from("profiles").select("full_name, email").eq("id", userId).maybeSingle();
+  return data?.full_name || data?.email || "An editor";
+}
+
+async function orderNotification(
+  supabase: SupabaseClient,
+  event: EmailEvent,
+  orderId: string,
+  reason: string | null,
+): Promise<Notification> {
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("id, client_name, requirement_text, price, actual_amount, deliverable_link, taken_by")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!order) throw new Error(`Order ${orderId} not found`);
+
+  return {
+    event,
+    orderId,
+    dedupeKey: null,
+    vars: {
+      order_id: order.id,
+      client_name: order.client_name,
+      requirement: order.requirement_text,
+      price: formatAmount(order.price),
+      amount: formatAmount(order.actual_amount ?? order.price),
+      deliverable_link: order.deliverable_link ?? "-",
+      editor_name: await profileName(supabase, order.taken_by),
+      reason: reason ?? "-",
+    },
+  };
+}
+
+// Month boundaries in UTC, same window the revenue widgets use
+async function revenueNotification(supabase: SupabaseClient, threshold: number | null): Promise<Notification | null> {
+  if (!threshold || threshold <= 0) return null;
+  const now = new Date();
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  const { data, error } = await supabase
+    .from("orders")
+    .select("price, actual_amount")
+    .eq("status", "completed")
+    .gte("completed_at", from.toISOString())
+    .lt("completed_at", to.toISOString());
+  if (error) throw error;
+
+  const revenue = (data ?? []).reduce((sum, o) => sum + Number(o.actual_amount ?? o.price ?? 0), 0);
+  if (revenue < threshold) return null;
+
+  const month = from.toISOString().slice(0, 7);
+  return {
+    event: "revenue_threshold",
+    orderId: null,
+    dedupeKey: `revenue_threshold:${month}`,
+    vars: {
+      month: from.toLocaleDateString("en-IN", { month: "long", year: "numeric", timeZone: "UTC" }),
+      revenue: formatAmount(revenue),
+      threshold: formatAmount(threshold),
+    },
+  };
+}
+
+async function syncNotification(supabase: SupabaseClient, orderIds: string[]): Promise<Notification | null> {
+  if (orderIds.length === 0) return null;
+  const { data, error } = await supabase
+    .from("orders")
+    .select("client_name, requirement_text, price")
+    .in("id", orderIds);
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+
+  const lines = data.map((o) => `- ${o.client_name} (₹${formatAmount(o.price)}): ${o.requirement_text}`);
+  return {
+    event: "orders_synced",
+    orderId: null,
+    dedupeKey: null,
+    vars: { count: data.length, orders: lines.join("\n") },
+  };
+}
+
+async function deliver(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  from: string,
+  recipients: string[],
+  notification: Notification,
+): Promise<Delivery> {
+  const { data: template, error: tplErr } = await supabase
+    .from("email_templates")
+    .select("enabled, subject, body")
+    .eq("event", notification.event)
+    .maybeSingle();
+  if (tplErr) throw tplErr;
+  if (!template?.enabled) return { event: notification.event, status: "skipped", reason: "template disabled" };
+
+  const subject = renderTemplate(template.subject, notification.vars);
+  const text = renderTemplate(template.body, notification.vars);
+
+  // The unique dedupe_key makes the insert fail if this email already went out
+  const { data: row, error: logErr } = await supabase
+    .from("email_deliveries")
+    .insert({
+      event: notification.event,
+      order_id: notification.orderId,
+      dedupe_key: notification.dedupeKey,
+      recipients,
+      subject,
+      transport: transport.name,
+    })
+    .select("id")
+    .single();
+  if (logErr) {
+    if (logErr.code === "23505") return { event: notification.event, status: "skipped", reason: "already sent" };
+    throw logErr;
+  }
+
+  try {
+    await transport.send({ from, to: recipients, subject, text });
+    await supabase.from("email_deliveries").update({ status: "sent" }).eq("id", row.id);
+    return { event: notification.event, status: "sent" };
+  } catch (e) {
+    const message = (e as Error).message;
+    await supabase.from("email_deliveries").update({ status: "failed", error: message }).eq("id", row.id);
+    return { event: notification.event, status: "failed", reason: message };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return json({ error: "Missing Supabase env" }, 500);
+    }
+    // Internal only: anyone else could use this to mail the admins
+    if (req.headers.get("authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return json({ ok: false, error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+
+    const body = await req.json().catch(() => ({}));
+    const event = body?.event as EmailEvent | undefined;
+    if (!event || (!ORDER_EVENTS.has(event) && event !== "orders_synced")) {
+      return json({ ok: false, error: `Unsupported event "${event}"` }, 400);
+    }
+
+    const { data: settings, error: settingsErr } = await supabase
+      .from("admin_settings")
+      .select("notification_emails, revenue_threshold_default")
+      .limit(1)
+      .maybeSingle();
+    if (settingsErr) throw settingsErr;
+    const recipients = settings?.notification_emails ?? [];
+    if (recipients.length === 0) {
+      return json({ ok: true, skipped: "no recipients", deliveries: [] });
+    }
+
+    const notifications: Notification[] = [];
+    if (event === "orders_synced") {
+      const ids = Array.isArray(body.order_ids) ? (body.order_ids as string[]) : [];
+      const n = await syncNotification(supabase, ids);
+      if (n) notifications.push(n);
+    } else {
+      if (typeof body.order_id !== "string") return json({ ok: false, error: "order_id is required" }, 400);
+      notifications.push(await orderNotification(supabase, event, body.order_id, body.reason ?? null));
+      if (event === "order_completed") {
+        const n = await revenueNotification(supabase, settings?.revenue_threshold_default ?? null);
+        if (n) notifications.push(n);
+      }
+    }
+
+    const transport = transportFromEnv((name) => Deno.env.get(name));
+    const from = Deno.env.get("EMAIL_FROM") ?? "notifications@localhost";
+    const deliveries: Delivery[] = [];
+    for (const n of notifications) {
+      deliveries.push(await deliver(supabase, transport, from, recipients, n));
+    }
+
+    return json({ ok: true, deliveries });
+  } catch (e) {
+    return json({ ok: false, error: (e as Error).message }, 500);
+  }
+});
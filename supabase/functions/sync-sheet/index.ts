@@ -1,9 +1,31 @@
-// Deno Deploy / Supabase Edge Function: Sync Google Sheet -> public.orders
-// Fetches the public GViz JSON for the shared sheet and upserts missing rows as available orders.
+// Deno Deploy / Supabase Edge Function: Sync Google Sheets -> public.orders
+// Iterates every enabled row in public.sheet_sources, fetches its GViz or OpenSheet JSON,
+// and upserts rows as available orders tagged with the source they came from.
+// Orders are keyed by (source_id, sheet_row_id) and store a hash of their sheet row: unchanged
+// rows are skipped, the rest are written in batched upserts (20251021080000_sheet_sync_upsert.sql).
+// Runs when a user refreshes and on a schedule (pg_cron, see 20251021050000_sync_runs.sql);
+// every run is recorded in public.sync_runs.
+// Body options: purge (archive orders whose sheet row is gone; see 20251021060000_archived_orders.sql),
+// dryRun (return the rows that would be inserted, updated and archived without writing anything),
+// force (admins only: also archive orders that editors have taken or completed, or that an admin
+// restored, which purge otherwise keeps).
+// Sheet edits to orders an editor is working on are not applied: they are held in
+// public.order_pending_changes for an admin (see 20251021070000_order_pending_changes.sql).
 // Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to be configured as function secrets (set by Supabase).
 
 import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import {
+  type ColumnMapping,
+  type ColumnResolution,
+  type SheetFields,
+  describeResolution,
+  extractFields,
+  resolveColumns,
+} from "../_shared/sheet-mapping.ts";
+import { type Contact, contactFromFields, hasContact, redactContacts } from "../_shared/contacts.ts";
+import { briefLinksFromFields } from "../_shared/brief-links.ts";
+import { orderDetailsFromFields } from "../_shared/order-parsing.ts";
 
 type GvizTable = {
   table: {
@@ -20,56 +42,328 @@ function parseGvizJsonp(input: string): GvizTable {
   return JSON.parse(json);
 }
 
-function parseBudgetToNumber(budget: string | null | undefined): number {
-  if (!budget) return 0;
-  let s = String(budget).toLowerCase().trim();
-  // normalize dashes and delimiters
-  s = s.replace(/[–—−]/g, "-");
-  // regex to capture numbers with optional thousand separators/decimals and optional suffix
-  const re = /(\d{1,3}(?:[,\s]\d{2,3})+|\d+(?:\.\d+)?)\s*(k|m|l|lac|lakh|lakhs|cr|crore)?/g;
-  const values: number[] = [];
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(s)) !== null) {
-    let numStr = m[1];
-    const suffix = m[2] || "";
-    // remove commas/spaces in digit groups
-    numStr = numStr.replace(/[\s,]/g, "");
-    let val = parseFloat(numStr);
-    if (!isFinite(val)) continue;
-    const suf = suffix.toLowerCase();
-    if (suf === "k") val *= 1_000;
-    else if (suf === "m") val *= 1_000_000;
-    else if (suf === "l" || suf === "lac" || suf === "lakh" || suf === "lakhs") val *= 100_000;
-    else if (suf === "cr" || suf === "crore") val *= 10_000_000;
-    values.push(Math.round(val));
+function djb2Hash(input: string): string {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash) + input.charCodeAt(i);
+    hash |= 0;
   }
-  if (values.length === 0) return 0;
-  // If a range like 1500 - 2500 is present, pick the higher bound
-  return Math.max(...values);
+  return (hash >>> 0).toString(36);
 }
 
-function addDays(days: number): string {
-  const d = new Date();
-  d.setDate(d.getDate() + days);
-  return d.toISOString();
+type SheetSource = {
+  id: string;
+  name: string;
+  url: string;
+  format: "gviz" | "opensheet";
+  default_price: number | null;
+  default_category: string | null;
+  column_mapping: ColumnMapping | null;
+};
+
+// No status: the column default makes new orders available, and upserts must not reset it
+type OrderRecord = {
+  client_name: string;
+  requirement_text: string;
+  price: number;
+  due_date: string | null;
+  source: "google_sheet";
+  source_id: string;
+  sheet_row_id: string;
+  raw_sheet_json: Record<string, unknown>;
+  content_hash: string;
+};
+
+type SourceResult = {
+  id: string;
+  name: string;
+  inserted: number;
+  updated: number;
+  purged: number;
+  // Stale orders a purge left alone (see isProtected)
+  kept: number;
+  // Sheet edits newly held for review (see holdsBrief)
+  conflicts: number;
+  // Existing orders whose sheet row has not changed since the last sync
+  skipped: number;
+  totalRows: number;
+  missingColumns: string[];
+  unmappedColumns: string[];
+  error?: string;
+};
+
+type SyncTrigger = "manual" | "cron";
+
+type ExistingOrder = {
+  id: string;
+  status: string;
+  client_name: string;
+  requirement_text: string;
+  price: number;
+  due_date: string | null;
+  content_hash: string | null;
+  archived_at: string | null;
+  restored_at: string | null;
+};
+
+// A field whose sheet value differs from an order that holds its brief
+type BriefChange = {
+  order_id: string;
+  field: "client_name" | "requirement_text" | "price" | "due_date";
+  old_value: string | null;
+  new_value: string | null;
+};
+
+// One line of the dry-run diff
+type PreviewRow = {
+  id: string | null;
+  source: string;
+  sheet_row_id: string | null;
+  client_name: string;
+  requirement_text: string;
+  price: number;
+  status: string;
+  changes?: string[];
+  // The changes go to an admin for review instead of being applied
+  held?: boolean;
+  protected?: boolean;
+};
+
+// Purge keeps these unless forced: the order has an editor's work attached
+const PROTECTED_STATUSES = ["taken", "in_review", "completed"];
+
+// ...as well as orders an admin restored from the archive
+function isProtected(order: { status: string; restored_at: string | null }): boolean {
+  return PROTECTED_STATUSES.includes(order.status) || order.restored_at !== null;
 }
 
-function mapTimelineToDueDate(timeline: string | null | undefined): string | null {
-  if (!timeline) return null;
-  const t = timeline.toLowerCase();
-  if (t.includes("urgent") || t.includes("1-3")) return addDays(3);
-  if (t.includes("week") || t.includes("3-7")) return addDays(7);
-  if (t.includes("month") || t.includes("1-4")) return addDays(28);
-  return null;
+// The same statuses keep their brief when the sheet row changes; the editor is working from it
+function holdsBrief(order: { status: string }): boolean {
+  return PROTECTED_STATUSES.includes(order.status);
 }
 
-function djb2Hash(input: string): string {
-  let hash = 5381;
-  for (let i = 0; i < input.length; i++) {
-    hash = ((hash << 5) + hash) + input.charCodeAt(i);
-    hash |= 0;
+type SheetRecord = {
+  order: OrderRecord;
+  contact: Contact;
+  briefLinks: string[];
+  timeline: string | null;
+};
+
+type SourceRows = {
+  records: SheetRecord[];
+  totalRows: number;
+  columns: string[];
+  resolution: ColumnResolution;
+  // Reads a stored raw_sheet_json with this fetch's columns, to compare against the current row
+  readFields: (raw: Record<string, unknown>) => SheetFields;
+};
+
+// Rows per upsert request, and per read when paging through a source's orders
+const UPSERT_CHUNK = 500;
+const PAGE_SIZE = 1000;
+// ids per IN filter; they travel in the URL
+const ID_CHUNK = 200;
+
+async function contentHash(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(value)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function withCacheBust(url: string): string {
+  const bust = `cacheBust=${Date.now()}`;
+  return url.includes("?") ? `${url}&${bust}` : `${url}?${bust}`;
+}
+
+// Turn one sheet row's mapped fields into an order, or null for empty rows
+function buildOrder(
+  fields: SheetFields,
+  source: SheetSource,
+  raw: Record<string, unknown>,
+  content_hash: string,
+): OrderRecord | null {
+  const details = orderDetailsFromFields(fields, source);
+  if (!details) return null;
+
+  // Deterministic fallback if timestamp is missing/duplicate
+  const fingerprint = [fields.client_name || "Client", fields.service, fields.description, fields.budget, fields.timeline]
+    .map((v) => v ?? "")
+    .join("|");
+  const sheet_row_id = fields.timestamp || djb2Hash(fingerprint);
+
+  return {
+    ...details,
+    source: "google_sheet",
+    source_id: source.id,
+    sheet_row_id,
+    raw_sheet_json: raw,
+    content_hash,
+  };
+}
+
+// Cell lookup by column label for one raw row (an OpenSheet object or a GViz { c: [...] } row)
+function cellReader(format: SheetSource["format"], columns: string[]) {
+  return (raw: Record<string, unknown>) => (label: string): unknown => {
+    if (format === "opensheet") return raw[label] ?? null;
+    const cell = (raw.c as ({ v: unknown; f?: string } | null)[] | undefined)?.[columns.indexOf(label)];
+    return cell?.f ?? cell?.v ?? null;
+  };
+}
+
+async function fetchSourceRows(source: SheetSource): Promise<SourceRows> {
+  const res = await fetch(withCacheBust(source.url), {
+    headers: { "cache-control": "no-cache" },
+  });
+  if (!res.ok) throw new Error(`Sheet fetch failed: ${res.status}`);
+
+  let columns: string[];
+  let rows: Record<string, unknown>[];
+  if (source.format === "opensheet") {
+    // OpenSheet: JSON array of row objects keyed by header names
+    const json = await res.json();
+    if (!Array.isArray(json)) throw new Error("OpenSheet response not an array");
+    const seen = new Set<string>();
+    for (const row of json as Record<string, unknown>[]) Object.keys(row).forEach((k) => seen.add(k));
+    columns = [...seen];
+    rows = json as Record<string, unknown>[];
+  } else {
+    const gviz = parseGvizJsonp(await res.text());
+    columns = gviz.table.cols.map((c) => c.label);
+    rows = gviz.table.rows as unknown as Record<string, unknown>[];
   }
-  return (hash >>> 0).toString(36);
+  const read = cellReader(source.format, columns);
+
+  const resolution = resolveColumns(source.column_mapping, columns);
+  // Without either of these every row would be skipped, and a purge would wipe the source
+  if (!resolution.columnFor.service && !resolution.columnFor.description) {
+    throw new Error(`Cannot map service or description columns (${describeResolution(resolution).join("; ")})`);
+  }
+
+  // Keyed by sheet_row_id: rows sharing a timestamp are one order, and the last row wins
+  const records = new Map<string, SheetRecord>();
+  for (const row of rows) {
+    const fields = extractFields(read(row), resolution);
+    const raw = redactContacts(row, columns, resolution);
+    // Everything the sync writes for a row derives from these
+    const hash = await contentHash([fields, raw, source.default_price, source.default_category]);
+    const order = buildOrder(fields, source, raw, hash);
+    if (!order) continue;
+    records.set(order.sheet_row_id, {
+      order,
+      contact: contactFromFields(fields),
+      briefLinks: briefLinksFromFields(fields),
+      timeline: fields.timeline,
+    });
+  }
+  const readFields = (raw: Record<string, unknown>) => extractFields(read(raw), resolution);
+  return { records: [...records.values()], totalRows: rows.length, columns, resolution, readFields };
+}
+
+// Scheduled calls arrive every few minutes; only run when the configured interval has passed.
+// The minute of slack keeps a 15 minute interval from slipping to every 20 minutes.
+async function cronRunDue(supabase: SupabaseClient): Promise<string | null> {
+  const { data: settings, error } = await supabase
+    .from("admin_settings")
+    .select("auto_sync_enabled, auto_sync_interval_minutes")
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!settings?.auto_sync_enabled) return "disabled";
+
+  const { data: last, error: lastErr } = await supabase
+    .from("sync_runs")
+    .select("started_at")
+    .eq("trigger", "cron")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastErr) throw lastErr;
+  const elapsedMs = last ? Date.now() - Date.parse(last.started_at) : Infinity;
+  return elapsedMs >= (settings.auto_sync_interval_minutes - 1) * 60_000 ? null : "not due";
+}
+
+// due_date is recomputed from the timeline on every sync, so it only counts as changed when the
+// timeline text itself changed since the stored row
+function briefChanges(
+  existing: ExistingOrder,
+  next: SheetRecord,
+  previousRaw: Record<string, unknown> | null,
+  readFields: SourceRows["readFields"],
+): BriefChange[] {
+  const changes: BriefChange[] = [];
+  for (const field of ["client_name", "requirement_text", "price"] as const) {
+    if (String(existing[field]) !== String(next.order[field])) {
+      changes.push({ order_id: existing.id, field, old_value: String(existing[field]), new_value: String(next.order[field]) });
+    }
+  }
+  const previousTimeline = previousRaw ? readFields(previousRaw).timeline : null;
+  if ((previousTimeline ?? null) !== (next.timeline ?? null)) {
+    changes.push({ order_id: existing.id, field: "due_date", old_value: existing.due_date, new_value: next.order.due_date });
+  }
+  return changes;
+}
+
+// All of a source's orders, a page at a time (PostgREST caps each response)
+async function fetchExistingOrders(supabase: SupabaseClient, sourceId: string): Promise<Map<string, ExistingOrder>> {
+  const bySheetRow = new Map<string, ExistingOrder>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("orders")
+      .select("id, sheet_row_id, status, client_name, requirement_text, price, due_date, content_hash, archived_at, restored_at")
+      .eq("source_id", sourceId)
+      .not("sheet_row_id", "is", null)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const r of data ?? []) bySheetRow.set(r.sheet_row_id, r);
+    if ((data ?? []).length < PAGE_SIZE) return bySheetRow;
+  }
+}
+
+// The stored sheet rows of the given orders, only needed where a row changed
+async function fetchRawRows(supabase: SupabaseClient, ids: string[]): Promise<Map<string, Record<string, unknown>>> {
+  const raw = new Map<string, Record<string, unknown>>();
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("orders")
+      .select("id, raw_sheet_json")
+      .in("id", ids.slice(i, i + ID_CHUNK));
+    if (error) throw error;
+    for (const r of data ?? []) if (r.raw_sheet_json) raw.set(r.id, r.raw_sheet_json);
+  }
+  return raw;
+}
+
+async function isAdmin(supabase: SupabaseClient, userId: string | null): Promise<boolean> {
+  if (!userId) return false;
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId)
+    .eq("role", "admin")
+    .maybeSingle();
+  if (error) throw error;
+  return Boolean(data);
+}
+
+// Archives by id in chunks. Orders are never deleted: that would cascade to their assignments
+// history. Unless forced, the filters also cover orders taken or restored after the caller
+// read them.
+async function archiveOrders(supabase: SupabaseClient, ids: string[], reason: string, force: boolean): Promise<number> {
+  let archived = 0;
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    let query = supabase
+      .from("orders")
+      .update({ archived_at: new Date().toISOString(), archive_reason: reason }, { count: "exact" })
+      .in("id", ids.slice(i, i + ID_CHUNK))
+      .is("archived_at", null);
+    if (!force) {
+      query = query.not("status", "in", `(${PROTECTED_STATUSES.join(",")})`).is("restored_at", null);
+    }
+    const { count, error } = await query;
+    if (error) throw error;
+    archived += count ?? 0;
+  }
+  return archived;
 }
 
 const corsHeaders = {
@@ -83,208 +377,358 @@ serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 204, headers: corsHeaders });
   }
-  try {
-    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
-    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
-    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-      return new Response(
-        JSON.stringify({ error: "Missing Supabase env" }),
-        { status: 500, headers: { "content-type": "application/json", ...corsHeaders } },
-      );
-    }
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response(
+      JSON.stringify({ error: "Missing Supabase env" }),
+      { status: 500, headers: { "content-type": "application/json", ...corsHeaders } },
+    );
+  }
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-      auth: { persistSession: false },
-    });
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+  let runId: string | null = null;
 
-    // Optional body to enable purge operation and override sheet URL
+  try {
+    // Optional body to enable purge operation and restrict the run to a single source
     let purge = false;
-    let sheetUrlOverride: string | null = null;
+    let dryRun = false;
+    let force = false;
+    let sourceId: string | null = null;
+    let requestedTrigger: unknown = null;
     try {
       const body = await req.json();
       purge = Boolean(body?.purge);
-      if (typeof body?.sheetUrl === "string" && body.sheetUrl.length > 0) {
-        sheetUrlOverride = body.sheetUrl as string;
+      dryRun = Boolean(body?.dryRun);
+      force = Boolean(body?.force);
+      if (typeof body?.sourceId === "string" && body.sourceId.length > 0) {
+        sourceId = body.sourceId as string;
       }
+      requestedTrigger = body?.trigger;
     } catch (_) {
       // ignore parse error; treat as no body
     }
 
-    // Determine source URL: OpenSheet (if provided) or fallback to GViz JSON with cache-busting
-    const nowBust = Date.now();
-    const defaultGviz = `https://docs.google.com/spreadsheets/d/1U3FZz4TCV3axNXy9U97xa9Zq85pCpTPZFNIy4Nfg7us/gviz/tq?tqx=out:json&cacheBust=${nowBust}`;
-    const targetUrl = sheetUrlOverride
-      ? (sheetUrlOverride.includes("?") ? `${sheetUrlOverride}&cacheBust=${nowBust}` : `${sheetUrlOverride}?cacheBust=${nowBust}`)
-      : defaultGviz;
+    // Only the scheduler (service role key) can claim to be cron; anything else is a user refresh
+    const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? null;
+    const isServiceRole = token === SUPABASE_SERVICE_ROLE_KEY;
+    const trigger: SyncTrigger = isServiceRole && requestedTrigger === "cron" ? "cron" : "manual";
 
-    const res = await fetch(targetUrl, {
-      headers: { "cache-control": "no-cache" },
-    });
-    if (!res.ok) throw new Error(`Sheet fetch failed: ${res.status}`);
-    let toInsert: any[] = [];
-    let rowsLength = 0;
-    if (targetUrl.includes("opensheet.elk.sh")) {
-      // OpenSheet: JSON array of row objects keyed by header names
-      const json = await res.json();
-      if (!Array.isArray(json)) throw new Error("OpenSheet response not an array");
-      rowsLength = json.length;
-      toInsert = json.map((row: Record<string, any>, idx: number) => {
-        const get = (label: string) => row[label] ?? null;
-        const fullName = String(get("What is your full name?") ?? get("Full Name") ?? "").trim() || "Client";
-        const service = String(get("What type of service you want ?") ?? get("Service") ?? "").trim();
-        const desc = String(get("Could you briefly describe your project or needs?") ?? get("Description") ?? "").trim();
-        const budgetRaw = String(get("What is your estimated budget for this project?") ?? get("Budget") ?? "").trim();
-        const timeline = String(get("What is your preferred timeline for project completion?") ?? get("Timeline") ?? "").trim();
-        const timestamp = String(get("Timestamp") ?? get("timestamp") ?? "").trim();
-
-        const requirement_text = [service, desc].filter(Boolean).join(" — ");
-        const price = parseBudgetToNumber(budgetRaw);
-        const due_date = mapTimelineToDueDate(timeline);
-        // Deterministic fallback if timestamp is missing/duplicate
-        const fingerprint = `${fullName}|${service}|${desc}|${budgetRaw}|${timeline}`;
-        const sheet_row_id = timestamp || djb2Hash(fingerprint);
-
-        // Skip empty rows (no meaningful content)
-        if (!service && !desc) return null;
-
-        return {
-          client_name: fullName,
-          requirement_text,
-          price,
-          due_date,
-          status: "available" as const,
-          source: "google_sheet" as const,
-          sheet_row_id,
-          raw_sheet_json: row as Record<string, unknown>,
-        };
-      }).filter(Boolean) as any[];
-    } else {
-      // GViz path as fallback
-      const text = await res.text();
-      const gviz = parseGvizJsonp(text);
-      const colIndex: Record<string, number> = {};
-      gviz.table.cols.forEach((c, idx) => (colIndex[c.label] = idx));
-
-      const required = [
-        "What type of service you want ?",
-        "Could you briefly describe your project or needs?",
-        "What is your estimated budget for this project?",
-        "What is your preferred timeline for project completion?",
-        "What is your full name?",
-        "Timestamp",
-      ];
-      for (const r of required) {
-        if (!(r in colIndex)) throw new Error(`Missing column: ${r}`);
+    if (trigger === "cron") {
+      const skipped = await cronRunDue(supabase);
+      if (skipped) {
+        return new Response(
+          JSON.stringify({ ok: true, skipped }),
+          { headers: { "content-type": "application/json", ...corsHeaders } },
+        );
       }
+    }
 
-      const rows = gviz.table.rows;
-      rowsLength = rows.length;
-      toInsert = rows.map((row, idx) => {
-        const get = (label: string) => row.c[colIndex[label]]?.f ?? row.c[colIndex[label]]?.v ?? null;
-        const fullName = String(get("What is your full name?") ?? "").trim() || "Client";
-        const service = String(get("What type of service you want ?") ?? "").trim();
-        const desc = String(get("Could you briefly describe your project or needs?") ?? "").trim();
-        const budgetRaw = String(get("What is your estimated budget for this project?") ?? "").trim();
-        const timeline = String(get("What is your preferred timeline for project completion?") ?? "").trim();
-        const timestamp = String(get("Timestamp") ?? "").trim();
-
-        const requirement_text = [service, desc].filter(Boolean).join(" — ");
-        const price = parseBudgetToNumber(budgetRaw);
-        const due_date = mapTimelineToDueDate(timeline);
-        const fingerprint = `${fullName}|${service}|${desc}|${budgetRaw}|${timeline}`;
-        const sheet_row_id = timestamp || djb2Hash(fingerprint);
-
-        if (!service && !desc) return null;
-
-        return {
-          client_name: fullName,
-          requirement_text,
-          price,
-          due_date,
-          status: "available" as const,
-          source: "google_sheet" as const,
-          sheet_row_id,
-          raw_sheet_json: row as unknown as Record<string, unknown>,
-        };
-      }).filter(Boolean) as any[];
+    let triggeredBy: string | null = null;
+    if (token && !isServiceRole) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      triggeredBy = user?.id ?? null;
     }
 
-    // Fetch existing orders keyed by sheet_row_id to prevent duplicates and enable updates
-    const { data: existing, error: selErr } = await supabase
-      .from("orders")
-      .select("sheet_row_id, status, taken_by");
-    if (selErr) throw selErr;
-    const existingMap = new Map<string, { status: string | null; taken_by: string | null }>();
-    for (const r of existing ?? []) {
-      const id = (r as any).sheet_row_id as string | null;
-      if (id) existingMap.set(id, { status: (r as any).status ?? null, taken_by: (r as any).taken_by ?? null });
+    if (force && !isServiceRole && !(await isAdmin(supabase, triggeredBy))) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Only admins can force archiving taken, completed, or restored orders" }),
+        { status: 403, headers: { "content-type": "application/json", ...corsHeaders } },
+      );
     }
 
-    const newRecords = toInsert.filter((r) => !existingMap.has(r.sheet_row_id));
-    const updateRecords = toInsert.filter((r) => existingMap.has(r.sheet_row_id));
+    // A preview changes nothing, so it is not part of the sync history
+    if (!dryRun) {
+      const { data: run, error: runErr } = await supabase
+        .from("sync_runs")
+        .insert({ trigger, source_id: sourceId, triggered_by: triggeredBy })
+        .select("id")
+        .single();
+      if (runErr) throw runErr;
+      runId = run.id;
+    }
 
-    let inserted = 0;
-    if (newRecords.length > 0) {
-      const { error: insErr } = await supabase.from("orders").insert(newRecords);
-      if (insErr) throw insErr;
-      inserted = newRecords.length;
+    let sourcesQuery = supabase
+      .from("sheet_sources")
+      .select("id, name, url, format, default_price, default_category, column_mapping")
+      .eq("enabled", true)
+      .order("created_at", { ascending: true });
+    if (sourceId) sourcesQuery = sourcesQuery.eq("id", sourceId);
+    const { data: sources, error: srcErr } = await sourcesQuery;
+    if (srcErr) throw srcErr;
+    if (sourceId && (sources ?? []).length === 0) {
+      throw new Error("Sheet source not found or disabled");
     }
 
-    // Update existing rows: only update editable fields, preserve status/taken_by
-    let updated = 0;
-    for (const r of updateRecords) {
-      const { error: upErr } = await supabase
-        .from("orders")
-        .update({
-          client_name: r.client_name,
-          requirement_text: r.requirement_text,
-          price: r.price,
-          due_date: r.due_date,
-          raw_sheet_json: r.raw_sheet_json,
-          source: "google_sheet",
-          updated_at: new Date().toISOString(),
-        })
-        .eq("sheet_row_id", r.sheet_row_id);
-      if (upErr) throw upErr;
-      updated += 1;
+    const results: SourceResult[] = [];
+    const newOrderIds: string[] = [];
+    const preview: { insert: PreviewRow[]; update: PreviewRow[]; archive: PreviewRow[] } = {
+      insert: [],
+      update: [],
+      archive: [],
+    };
+    for (const source of (sources ?? []) as SheetSource[]) {
+      const result: SourceResult = {
+        id: source.id,
+        name: source.name,
+        inserted: 0,
+        updated: 0,
+        purged: 0,
+        kept: 0,
+        conflicts: 0,
+        skipped: 0,
+        totalRows: 0,
+        missingColumns: [],
+        unmappedColumns: [],
+      };
+      results.push(result);
+      try {
+        const { records, totalRows, columns, resolution, readFields } = await fetchSourceRows(source);
+        result.totalRows = totalRows;
+        result.missingColumns = describeResolution(resolution);
+        result.unmappedColumns = resolution.unmappedColumns;
+        // Existing orders keyed by sheet_row_id, to tell inserts from updates
+        const existingRows = await fetchExistingOrders(supabase, source.id);
+        const orderIds = new Map<string, string>();
+        for (const [rowId, o] of existingRows) orderIds.set(rowId, o.id);
+
+        const newRecords = records.filter((r) => !existingRows.has(r.order.sheet_row_id));
+        // An unchanged row is skipped entirely, unless it has to come back out of the archive
+        const updateRecords = records.filter((r) => {
+          const o = existingRows.get(r.order.sheet_row_id);
+          return o && (o.content_hash !== r.order.content_hash || o.archived_at);
+        });
+        result.skipped = records.length - newRecords.length - updateRecords.length;
+        const previousRaw = await fetchRawRows(supabase, updateRecords.map((r) => existingRows.get(r.order.sheet_row_id)!.id));
+
+        // Rows that no longer exist in this sheet; protected ones stay unless forced
+        const currentIds = new Set(records.map((r) => r.order.sheet_row_id));
+        const stale = purge ? [...existingRows].filter(([rowId, o]) => !currentIds.has(rowId) && !o.archived_at) : [];
+        const archivable = stale.filter(([, o]) => force || !isProtected(o));
+        result.kept = stale.length - archivable.length;
+
+        if (dryRun) {
+          result.inserted = newRecords.length;
+          result.updated = updateRecords.length;
+          result.purged = archivable.length;
+          for (const { order: r } of newRecords) {
+            preview.insert.push({
+              id: null,
+              source: source.name,
+              sheet_row_id: r.sheet_row_id,
+              client_name: r.client_name,
+              requirement_text: r.requirement_text,
+              price: r.price,
+              status: "available",
+            });
+          }
+          for (const r of updateRecords) {
+            const o = existingRows.get(r.order.sheet_row_id)!;
+            const changes = briefChanges(o, r, previousRaw.get(o.id) ?? null, readFields).map((c) => c.field as string);
+            // The row is back in the sheet, so the update takes the order out of the archive
+            if (o.archived_at) changes.push("archived_at");
+            preview.update.push({
+              id: o.id,
+              source: source.name,
+              sheet_row_id: r.order.sheet_row_id,
+              client_name: r.order.client_name,
+              requirement_text: r.order.requirement_text,
+              price: r.order.price,
+              status: o.status,
+              changes,
+              held: holdsBrief(o),
+            });
+          }
+          for (const [rowId, o] of stale) {
+            preview.archive.push({
+              id: o.id,
+              source: source.name,
+              sheet_row_id: rowId,
+              client_name: o.client_name,
+              requirement_text: o.requirement_text,
+              price: o.price,
+              status: o.status,
+              protected: !force && isProtected(o),
+            });
+          }
+          continue;
+        }
+
+        // New and changed rows in one upsert per chunk. Every row sends the same columns, and
+        // status/taken_by are never among them. Orders that hold their brief send their current
+        // values, so only the raw row and hash change; field changes wait for an admin.
+        const heldChanges: BriefChange[] = [];
+        const touched = [...newRecords, ...updateRecords];
+        const upsertRows = touched.map((r) => {
+          const existingOrder = existingRows.get(r.order.sheet_row_id);
+          const held = existingOrder !== undefined && holdsBrief(existingOrder);
+          if (held) heldChanges.push(...briefChanges(existingOrder, r, previousRaw.get(existingOrder.id) ?? null, readFields));
+          const brief = held ? existingOrder : r.order;
+          return {
+            ...r.order,
+            client_name: brief.client_name,
+            requirement_text: brief.requirement_text,
+            price: brief.price,
+            due_date: brief.due_date,
+            archived_at: null,
+            archive_reason: null,
+          };
+        });
+        for (let i = 0; i < upsertRows.length; i += UPSERT_CHUNK) {
+          const { data: written, error: upErr } = await supabase
+            .from("orders")
+            .upsert(upsertRows.slice(i, i + UPSERT_CHUNK), { onConflict: "source_id,sheet_row_id" })
+            .select("id, sheet_row_id");
+          if (upErr) throw upErr;
+          for (const row of written ?? []) {
+            if (!existingRows.has(row.sheet_row_id)) newOrderIds.push(row.id);
+            orderIds.set(row.sheet_row_id, row.id);
+          }
+        }
+        result.inserted = newRecords.length;
+        result.updated = updateRecords.length;
+        if (heldChanges.length > 0) {
+          const { data: recorded, error: changeErr } = await supabase.rpc("record_order_changes", { _rows: heldChanges });
+          if (changeErr) throw changeErr;
+          result.conflicts = recorded ?? 0;
+        }
+
+        // Contact details live in order_contacts, readable only by the assignee and admins
+        const withContact = touched.filter((r) => hasContact(r.contact) && orderIds.has(r.order.sheet_row_id));
+        const contacts = withContact.map((r) => ({ order_id: orderIds.get(r.order.sheet_row_id)!, ...r.contact }));
+        if (contacts.length > 0) {
+          const { error: contactErr } = await supabase
+            .from("order_contacts")
+            .upsert(contacts, { onConflict: "order_id" });
+          if (contactErr) throw contactErr;
+
+          // Dedupe into public.clients by email/phone and link each order to its client
+          const { error: linkErr } = await supabase.rpc("link_order_clients", {
+            _rows: withContact.map((r) => ({
+              order_id: orderIds.get(r.order.sheet_row_id),
+              name: r.order.client_name,
+              ...r.contact,
+            })),
+          });
+          if (linkErr) throw linkErr;
+        }
+
+        // Reference links from the row become brief attachments; cleared when the row no longer has any
+        const linkRows = touched
+          .filter((r) => orderIds.has(r.order.sheet_row_id))
+          .map((r) => ({ order_id: orderIds.get(r.order.sheet_row_id), links: r.briefLinks }));
+        if (linkRows.length > 0) {
+          const { error: briefErr } = await supabase.rpc("set_sheet_brief_links", { _rows: linkRows });
+          if (briefErr) throw briefErr;
+        }
+
+        // Reconcile this source: archive rows that no longer exist in its sheet
+        if (archivable.length > 0) {
+          const ids = archivable.map(([, o]) => o.id);
+          result.purged = await archiveOrders(supabase, ids, `Removed from sheet "${source.name}"`, force);
+          result.kept += archivable.length - result.purged;
+        }
+
+        await supabase
+          .from("sheet_sources")
+          .update({ last_synced_at: new Date().toISOString(), last_error: null, columns })
+          .eq("id", source.id);
+      } catch (e) {
+        // One broken sheet must not block the others
+        result.error = (e as Error).message;
+        if (!dryRun) await supabase.from("sheet_sources").update({ last_error: result.error }).eq("id", source.id);
+      }
     }
 
-    let purged = 0;
-    if (purge) {
-      // 1) Remove any non-sheet orders entirely
-      const { count: nonSheetCount, error: delErr1 } = await supabase
+    let purged = results.reduce((sum, r) => sum + r.purged, 0);
+    let kept = results.reduce((sum, r) => sum + r.kept, 0);
+    const conflicts = results.reduce((sum, r) => sum + r.conflicts, 0);
+    const skipped = results.reduce((sum, r) => sum + r.skipped, 0);
+    if (purge && !sourceId) {
+      // Archive orders from retired sources; pushed orders (intake-order) are not ours to reconcile
+      const { data: retired, error: retiredErr } = await supabase
         .from("orders")
-        .delete({ count: "exact" })
-        .neq("source", "google_sheet");
-      if (delErr1) throw delErr1;
-      purged += nonSheetCount ?? 0;
-
-      // 2) Reconcile sheet orders: delete rows that no longer exist in the sheet
-      const currentIds = new Set(toInsert.map((r) => r.sheet_row_id));
-      const staleIds: string[] = [];
-      for (const [id] of existingMap) {
-        if (!currentIds.has(id)) staleIds.push(id);
-      }
-      if (staleIds.length > 0) {
-        const chunk = 1000; // safety for IN clause limits
-        for (let i = 0; i < staleIds.length; i += chunk) {
-          const slice = staleIds.slice(i, i + chunk);
-          const { count: sheetDelCount, error: delErr2 } = await supabase
-            .from("orders")
-            .delete({ count: "exact" })
-            .in("sheet_row_id", slice);
-          if (delErr2) throw delErr2;
-          purged += sheetDelCount ?? 0;
+        .select("id, source, status, client_name, requirement_text, price, restored_at")
+        .not("source", "in", "(google_sheet,webhook)")
+        .is("archived_at", null);
+      if (retiredErr) throw retiredErr;
+      const retiredArchivable = (retired ?? []).filter((o) => force || !isProtected(o));
+      if (dryRun) {
+        for (const o of retired ?? []) {
+          preview.archive.push({
+            id: o.id,
+            source: o.source,
+            sheet_row_id: null,
+            client_name: o.client_name,
+            requirement_text: o.requirement_text,
+            price: o.price,
+            status: o.status,
+            protected: !force && isProtected(o),
+          });
         }
+        purged += retiredArchivable.length;
+        kept += (retired ?? []).length - retiredArchivable.length;
+      } else {
+        const ids = retiredArchivable.map((o) => o.id);
+        const archived = await archiveOrders(supabase, ids, "Sheet source no longer exists", force);
+        purged += archived;
+        kept += (retired ?? []).length - archived;
       }
     }
 
+    // Email the admins about new orders; a mail problem must not fail the sync
+    if (newOrderIds.length > 0) {
+      const { error: notifyErr } = await supabase.functions.invoke("send-notification", {
+        body: { event: "orders_synced", order_ids: newOrderIds },
+      });
+      if (notifyErr) console.error("send-notification failed", notifyErr);
+    }
+
+    const inserted = results.reduce((sum, r) => sum + r.inserted, 0);
+    const updated = results.reduce((sum, r) => sum + r.updated, 0);
+    const totalRows = results.reduce((sum, r) => sum + r.totalRows, 0);
+    const failed = results.filter((r) => r.error);
+    const failureSummary = failed.map((r) => `${r.name}: ${r.error}`).join("; ");
+    if (results.length > 0 && failed.length === results.length) {
+      throw new Error(failureSummary);
+    }
+
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({ ok: true, dryRun: true, inserted, updated, skipped, purged, kept, totalRows, sources: results, preview }),
+        { headers: { "content-type": "application/json", ...corsHeaders } },
+      );
+    }
+
+    // Sources that failed while others synced are kept on the run as its error
+    await supabase
+      .from("sync_runs")
+      .update({
+        status: "succeeded",
+        finished_at: new Date().toISOString(),
+        inserted,
+        updated,
+        skipped,
+        purged,
+        total_rows: totalRows,
+        error: failureSummary || null,
+      })
+      .eq("id", runId);
+
     return new Response(
-      JSON.stringify({ ok: true, inserted, updated, purged, totalRows: rowsLength }),
+      JSON.stringify({ ok: true, inserted, updated, skipped, purged, kept, conflicts, totalRows, sources: results }),
       { headers: { "content-type": "application/json", ...corsHeaders } },
     );
   } catch (e) {
+    if (runId) {
+      await supabase
+        .from("sync_runs")
+        .update({ status: "failed", finished_at: new Date().toISOString(), error: (e as Error).message })
+        .eq("id", runId);
+    }
     return new Response(
       JSON.stringify({ ok: false, error: (e as Error).message }),
       { status: 500, headers: { "content-type": "application/json", ...corsHeaders } },
@@ -0,0 +1,91 @@
+-- Track who last changed admin_settings and keep a per-field change history
+ALTER TABLE public.admin_settings
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE public.admin_settings_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  settings_id UUID NOT NULL REFERENCES public.admin_settings(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX admin_settings_history_changed_at_idx
+  ON public.admin_settings_history (changed_at DESC);
+
+ALTER TABLE public.admin_settings_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view settings history"
+  ON public.admin_settings_history FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Stamp updated_at / updated_by on every settings change
+CREATE OR REPLACE FUNCTION public.stamp_admin_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  NEW.updated_by = auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_admin_settings
+  BEFORE UPDATE ON public.admin_settings
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_admin_settings();
+
+-- Write one history row per changed column. Secrets are never copied into history.
+CREATE OR REPLACE FUNCTION public.log_admin_settings_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  key TEXT;
+BEGIN
+  FOR key IN SELECT jsonb_object_keys(new_row) LOOP
+    CONTINUE WHEN key IN ('id', 'created_at', 'updated_at', 'updated_by');
+    CONTINUE WHEN old_row -> key IS NOT DISTINCT FROM new_row -> key;
+
+    INSERT INTO public.admin_settings_history (settings_id, field, old_value, new_value, changed_by)
+    VALUES (
+      NEW.id,
+      key,
+      CASE WHEN key = 'webhook_secret' THEN NULL ELSE old_row ->> key END,
+      CASE WHEN key = 'webhook_secret' THEN 'rotated' ELSE new_row ->> key END,
+      auth.uid()
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_admin_settings_change
+  AFTER UPDATE ON public.admin_settings
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_settings_change();
+
+-- Generate a fresh webhook secret server-side so it never has to be typed in
+CREATE OR REPLACE FUNCTION public.rotate_webhook_secret()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  secret TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can rotate the webhook secret';
+  END IF;
+
+  UPDATE public.admin_settings SET webhook_secret = secret;
+  RETURN secret;
+END;
+$$;
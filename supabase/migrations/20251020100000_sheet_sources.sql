@@ -0,0 +1,52 @@
+-- Admin-managed list of Google Sheets that sync-sheet pulls orders from
+CREATE TABLE public.sheet_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  format TEXT NOT NULL DEFAULT 'gviz' CHECK (format IN ('gviz', 'opensheet')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  default_price NUMERIC(10, 2),
+  default_category TEXT,
+  last_synced_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.sheet_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view sheet sources"
+  ON public.sheet_sources FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage sheet sources"
+  ON public.sheet_sources FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sheet_sources_updated_at
+  BEFORE UPDATE ON public.sheet_sources
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every order remembers which sheet it came from
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS source_id UUID REFERENCES public.sheet_sources(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS orders_source_id_sheet_row_id_idx
+  ON public.orders (source_id, sheet_row_id);
+
+-- Seed the sheet that used to be hardcoded and attach existing sheet orders to it
+WITH seeded AS (
+  INSERT INTO public.sheet_sources (name, url, format)
+  VALUES (
+    'Client intake form',
+    'https://docs.google.com/spreadsheets/d/1U3FZz4TCV3axNXy9U97xa9Zq85pCpTPZFNIy4Nfg7us/gviz/tq?tqx=out:json&gid=2062186565',
+    'gviz'
+  )
+  RETURNING id
+)
+UPDATE public.orders
+SET source_id = (SELECT id FROM seeded)
+WHERE source = 'google_sheet' AND source_id IS NULL;
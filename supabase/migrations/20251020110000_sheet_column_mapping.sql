@@ -0,0 +1,34 @@
+-- Per-source mapping from sheet column labels to order fields.
+-- Keys: client_name, email, phone, whatsapp, service, description, budget, timeline, timestamp.
+-- A missing or empty key means "auto-detect by column label".
+ALTER TABLE public.sheet_sources
+  ADD COLUMN IF NOT EXISTS column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS columns TEXT[];
+
+COMMENT ON COLUMN public.sheet_sources.columns IS
+  'Column labels seen on the last sync, in sheet order. Used to read GViz rows in raw_sheet_json by label.';
+
+-- The original form: keep the labels sync-sheet used to hardcode, and the positional
+-- layout the inspect dialogs used to assume, until the next sync records the real header.
+UPDATE public.sheet_sources
+SET
+  column_mapping = jsonb_build_object(
+    'timestamp', 'Timestamp',
+    'service', 'What type of service you want ?',
+    'description', 'Could you briefly describe your project or needs?',
+    'budget', 'What is your estimated budget for this project?',
+    'timeline', 'What is your preferred timeline for project completion?',
+    'client_name', 'What is your full name?'
+  ),
+  columns = ARRAY[
+    'Timestamp',
+    'What type of service you want ?',
+    'Could you briefly describe your project or needs?',
+    'What is your estimated budget for this project?',
+    'What is your preferred timeline for project completion?',
+    'What is your full name?',
+    'Email',
+    'Phone',
+    'WhatsApp'
+  ]
+WHERE url LIKE '%1U3FZz4TCV3axNXy9U97xa9Zq85pCpTPZFNIy4Nfg7us%';
@@ -0,0 +1,135 @@
+-- Client contact details as first-class columns. Kept out of public.orders because every
+-- authenticated user can read orders; only the assigned editor and admins may see these.
+CREATE TABLE public.order_contacts (
+  order_id UUID PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE,
+  email TEXT,
+  phone TEXT,
+  whatsapp TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.order_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Assigned editor and admins can view contacts"
+  ON public.order_contacts FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    OR EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = order_contacts.order_id AND o.taken_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage contacts"
+  ON public.order_contacts FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_order_contacts_updated_at
+  BEFORE UPDATE ON public.order_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Same normalization sync-sheet applies (supabase/functions/_shared/contacts.ts)
+CREATE OR REPLACE FUNCTION public.normalize_email(_value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN lower(trim(_value)) ~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN lower(trim(_value))
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_phone(_value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(regexp_replace(coalesce(_value, ''), '\D', '', 'g')) < 7 THEN NULL
+    WHEN trim(_value) LIKE '+%' THEN '+' || regexp_replace(_value, '\D', '', 'g')
+    ELSE regexp_replace(_value, '\D', '', 'g')
+  END
+$$;
+
+-- Backfill from raw_sheet_json (GViz { c: [...] } rows or OpenSheet { label: value } rows),
+-- then strip the contact cells out of raw_sheet_json.
+DO $$
+DECLARE
+  o RECORD;
+  raw JSONB;
+  cols TEXT[];
+  field TEXT;
+  label TEXT;
+  idx INT;
+  val TEXT;
+  found JSONB;
+  patterns CONSTANT JSONB := '{"email": "e-?mail", "phone": "phone|mobile", "whatsapp": "whats\\s*app"}';
+  -- Layout the inspect dialogs used to assume for rows without a known header
+  legacy_columns CONSTANT TEXT[] := ARRAY[
+    'Timestamp', 'Service', 'Description', 'Budget', 'Timeline', 'Full Name', 'Email', 'Phone', 'WhatsApp'
+  ];
+BEGIN
+  FOR o IN
+    SELECT ord.id, ord.raw_sheet_json, src.columns, src.column_mapping
+    FROM public.orders ord
+    LEFT JOIN public.sheet_sources src ON src.id = ord.source_id
+    WHERE jsonb_typeof(ord.raw_sheet_json) = 'object'
+  LOOP
+    raw := o.raw_sheet_json;
+    found := '{}'::jsonb;
+
+    IF jsonb_typeof(raw -> 'c') = 'array' THEN
+      cols := coalesce(o.columns, legacy_columns);
+    ELSE
+      cols := coalesce(o.columns, ARRAY(SELECT jsonb_object_keys(raw)));
+    END IF;
+
+    FOREACH field IN ARRAY ARRAY['email', 'phone', 'whatsapp'] LOOP
+      label := nullif(trim(o.column_mapping ->> field), '');
+      IF label IS NULL THEN
+        SELECT t.c INTO label
+        FROM unnest(cols) WITH ORDINALITY AS t(c, n)
+        WHERE t.c ~* (patterns ->> field)
+          AND (field <> 'phone' OR t.c !~* 'whats\s*app')
+        ORDER BY t.n
+        LIMIT 1;
+      END IF;
+      CONTINUE WHEN label IS NULL;
+
+      IF jsonb_typeof(raw -> 'c') = 'array' THEN
+        idx := array_position(cols, label) - 1;
+        CONTINUE WHEN idx IS NULL OR idx >= jsonb_array_length(raw -> 'c');
+        val := coalesce(raw -> 'c' -> idx ->> 'f', raw -> 'c' -> idx ->> 'v');
+        raw := jsonb_set(raw, ARRAY['c', idx::text], 'null'::jsonb);
+      ELSE
+        val := raw ->> label;
+        raw := raw - label;
+      END IF;
+
+      found := found || jsonb_build_object(field, val);
+    END LOOP;
+
+    IF public.normalize_email(found ->> 'email') IS NOT NULL
+      OR public.normalize_phone(found ->> 'phone') IS NOT NULL
+      OR public.normalize_phone(found ->> 'whatsapp') IS NOT NULL
+    THEN
+      INSERT INTO public.order_contacts (order_id, email, phone, whatsapp)
+      VALUES (
+        o.id,
+        public.normalize_email(found ->> 'email'),
+        public.normalize_phone(found ->> 'phone'),
+        public.normalize_phone(found ->> 'whatsapp')
+      )
+      ON CONFLICT (order_id) DO NOTHING;
+    END IF;
+
+    IF raw IS DISTINCT FROM o.raw_sheet_json THEN
+      UPDATE public.orders SET raw_sheet_json = raw WHERE id = o.id;
+    END IF;
+  END LOOP;
+END;
+$$;
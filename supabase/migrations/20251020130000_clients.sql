@@ -0,0 +1,123 @@
+-- Deduplicated client directory. Orders are linked to a client by matching email or phone.
+CREATE TABLE public.clients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  whatsapp TEXT,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_contact_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX clients_email_key ON public.clients (email) WHERE email IS NOT NULL;
+CREATE INDEX clients_phone_idx ON public.clients (phone) WHERE phone IS NOT NULL;
+CREATE INDEX clients_whatsapp_idx ON public.clients (whatsapp) WHERE whatsapp IS NOT NULL;
+
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage clients"
+  ON public.clients FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_clients_updated_at
+  BEFORE UPDATE ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS orders_client_id_idx ON public.orders (client_id);
+
+-- Find-or-create a client for each { order_id, name, email, phone, whatsapp } and link the order.
+-- Email wins over phone when both match different clients. Called by sync-sheet with the service role.
+CREATE OR REPLACE FUNCTION public.link_order_clients(_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  e TEXT;
+  p TEXT;
+  w TEXT;
+  contacted TIMESTAMPTZ;
+  cid UUID;
+  linked INTEGER := 0;
+BEGIN
+  FOR r IN
+    SELECT * FROM jsonb_to_recordset(_rows) AS x(order_id UUID, name TEXT, email TEXT, phone TEXT, whatsapp TEXT)
+  LOOP
+    e := public.normalize_email(r.email);
+    p := public.normalize_phone(r.phone);
+    w := public.normalize_phone(r.whatsapp);
+    CONTINUE WHEN e IS NULL AND p IS NULL AND w IS NULL;
+
+    SELECT coalesce(created_at, NOW()) INTO contacted FROM public.orders WHERE id = r.order_id;
+    CONTINUE WHEN NOT FOUND;
+
+    cid := NULL;
+    IF e IS NOT NULL THEN
+      SELECT id INTO cid FROM public.clients WHERE email = e;
+    END IF;
+    IF cid IS NULL THEN
+      SELECT id INTO cid
+      FROM public.clients
+      WHERE phone IN (p, w) OR whatsapp IN (p, w)
+      ORDER BY created_at
+      LIMIT 1;
+    END IF;
+
+    IF cid IS NULL THEN
+      INSERT INTO public.clients (name, email, phone, whatsapp, first_seen_at, last_contact_at)
+      VALUES (coalesce(nullif(trim(r.name), ''), 'Client'), e, p, w, contacted, contacted)
+      RETURNING id INTO cid;
+    ELSE
+      UPDATE public.clients
+      SET
+        name = CASE
+          WHEN contacted >= last_contact_at AND coalesce(trim(r.name), '') NOT IN ('', 'Client') THEN trim(r.name)
+          ELSE name
+        END,
+        email = coalesce(email, e),
+        phone = coalesce(phone, p),
+        whatsapp = coalesce(whatsapp, w),
+        first_seen_at = least(first_seen_at, contacted),
+        last_contact_at = greatest(last_contact_at, contacted)
+      WHERE id = cid;
+    END IF;
+
+    UPDATE public.orders SET client_id = cid WHERE id = r.order_id AND client_id IS DISTINCT FROM cid;
+    linked := linked + 1;
+  END LOOP;
+  RETURN linked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_order_clients(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.link_order_clients(JSONB) TO service_role;
+
+-- Backfill from the contacts already extracted for existing orders, oldest first
+SELECT public.link_order_clients(
+  coalesce(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'order_id', o.id,
+          'name', o.client_name,
+          'email', c.email,
+          'phone', c.phone,
+          'whatsapp', c.whatsapp
+        )
+        ORDER BY o.created_at
+      )
+      FROM public.orders o
+      JOIN public.order_contacts c ON c.order_id = o.id
+    ),
+    '[]'::jsonb
+  )
+);
@@ -0,0 +1,147 @@
+-- Real order statuses instead of the status = 'completed' + deliverable_link = 'FAILED' sentinel
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('available', 'taken', 'in_review', 'completed', 'failed', 'cancelled'));
+
+-- Convert existing FAILED sentinels
+UPDATE public.orders
+SET
+  status = 'failed',
+  failed_at = coalesce(completed_at, updated_at, NOW()),
+  completed_at = NULL,
+  deliverable_link = NULL
+WHERE status = 'completed' AND deliverable_link = 'FAILED';
+
+-- Allowed status moves. Anything not listed (other than staying put) is rejected.
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR (_from, _to) IN (
+    VALUES
+      ('available', 'taken'),
+      ('available', 'cancelled'),
+      ('taken', 'available'),
+      ('taken', 'in_review'),
+      ('taken', 'completed'),
+      ('taken', 'failed'),
+      ('taken', 'cancelled'),
+      ('in_review', 'taken'),
+      ('in_review', 'completed'),
+      ('in_review', 'failed'),
+      ('in_review', 'cancelled'),
+      ('failed', 'available'),
+      ('cancelled', 'available')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- auth.uid() is NULL for the service role (edge functions, cron)
+  is_privileged BOOLEAN := auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin');
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'invalid_transition'
+      USING DETAIL = format('Cannot move an order from %s to %s', OLD.status, NEW.status);
+  END IF;
+
+  -- Cancelling and reopening closed orders are admin decisions
+  IF NOT is_privileged AND (NEW.status = 'cancelled' OR OLD.status IN ('failed', 'cancelled')) THEN
+    RAISE EXCEPTION 'not_admin'
+      USING DETAIL = format('Only admins can move an order from %s to %s', OLD.status, NEW.status);
+  END IF;
+
+  CASE NEW.status
+    WHEN 'available' THEN
+      NEW.taken_by := NULL;
+      NEW.taken_at := NULL;
+      NEW.completed_at := NULL;
+      NEW.failed_at := NULL;
+      NEW.cancelled_at := NULL;
+    WHEN 'taken' THEN
+      IF NEW.taken_by IS NULL THEN
+        RAISE EXCEPTION 'invalid_transition' USING DETAIL = 'A taken order needs an assignee';
+      END IF;
+      NEW.taken_at := coalesce(NEW.taken_at, NOW());
+    WHEN 'completed' THEN
+      NEW.completed_at := coalesce(NEW.completed_at, NOW());
+    WHEN 'failed' THEN
+      NEW.failed_at := coalesce(NEW.failed_at, NOW());
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := coalesce(NEW.cancelled_at, NOW());
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- Editors may now also submit for review, fail, or release their own orders
+DROP POLICY IF EXISTS "Editors can take available orders" ON public.orders;
+CREATE POLICY "Editors can take available orders"
+  ON public.orders FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'available'
+    OR taken_by = auth.uid()
+    OR public.has_role(auth.uid(), 'admin')
+  )
+  WITH CHECK (
+    (status IN ('taken', 'in_review', 'completed', 'failed') AND taken_by = auth.uid())
+    OR (status = 'available' AND taken_by IS NULL)
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- The policy cannot compare the old and new row, so an editor's direct update is narrowed here:
+-- on an available order it must be the take itself, and it may only touch the workflow columns,
+-- never the brief (client, requirement, price, due date, attachments). current_user is the
+-- function owner inside SECURITY DEFINER functions, so only direct API updates are checked.
+CREATE OR REPLACE FUNCTION public.restrict_editor_order_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  workflow_columns TEXT[] := ARRAY[
+    'status', 'taken_by', 'taken_at', 'submitted_at', 'completed_at', 'failed_at', 'cancelled_at',
+    'deliverable_link', 'actual_amount', 'editor_feedback', 'updated_at'
+  ];
+BEGIN
+  IF current_user <> 'authenticated' OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'available' AND NEW.status <> 'taken' THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Editors can only take an available order';
+  END IF;
+
+  IF (to_jsonb(NEW) - workflow_columns) IS DISTINCT FROM (to_jsonb(OLD) - workflow_columns) THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can change the order details';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_editor_order_update
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_editor_order_update();
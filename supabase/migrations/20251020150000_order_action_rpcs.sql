@@ -0,0 +1,162 @@
+-- Editor order actions as single transactions: check state, apply the change, write the audit row.
+-- Errors are raised as a short code in the message (already_taken, not_assignee, ...) with a
+-- human-readable DETAIL; the UI maps the code in src/lib/orderActions.ts.
+ALTER TABLE public.assignments DROP CONSTRAINT IF EXISTS assignments_action_check;
+ALTER TABLE public.assignments ADD CONSTRAINT assignments_action_check
+  CHECK (action IN ('taken', 'completed', 'released', 'failed'));
+
+-- Lock the order row for the caller, who must be signed in
+CREATE OR REPLACE FUNCTION public.lock_order_for_action(_order_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING DETAIL = 'Sign in to work on orders';
+  END IF;
+
+  SELECT * INTO o FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found' USING DETAIL = 'This order no longer exists';
+  END IF;
+  RETURN o;
+END;
+$$;
+
+-- Assignee-only actions: the order must be in progress and held by the caller
+CREATE OR REPLACE FUNCTION public.lock_assigned_order(_order_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_order_for_action(_order_id);
+BEGIN
+  IF o.taken_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'not_assignee' USING DETAIL = 'This order is not assigned to you';
+  END IF;
+  IF o.status <> 'taken' THEN
+    RAISE EXCEPTION 'invalid_transition'
+      USING DETAIL = format('This order is %s, not in progress', o.status);
+  END IF;
+  RETURN o;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.take_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_order_for_action(_order_id);
+BEGIN
+  IF o.status IN ('taken', 'in_review') THEN
+    RAISE EXCEPTION 'already_taken'
+      USING DETAIL = CASE WHEN o.taken_by = auth.uid()
+        THEN 'You already have this order'
+        ELSE 'This order has already been taken by someone else'
+      END;
+  END IF;
+  IF o.status <> 'available' THEN
+    RAISE EXCEPTION 'not_available' USING DETAIL = format('This order is %s', o.status);
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'taken', taken_by = auth.uid(), taken_at = NOW()
+  WHERE id = _order_id;
+
+  INSERT INTO public.assignments (order_id, user_id, action)
+  VALUES (_order_id, auth.uid(), 'taken');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_order(
+  _order_id UUID,
+  _deliverable_link TEXT DEFAULT NULL,
+  _actual_amount NUMERIC DEFAULT NULL,
+  _editor_feedback TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+
+  IF _actual_amount IS NOT NULL AND _actual_amount < 0 THEN
+    RAISE EXCEPTION 'invalid_amount' USING DETAIL = 'The actual amount cannot be negative';
+  END IF;
+
+  UPDATE public.orders
+  SET
+    status = 'completed',
+    completed_at = NOW(),
+    deliverable_link = nullif(trim(_deliverable_link), ''),
+    actual_amount = _actual_amount,
+    editor_feedback = nullif(trim(_editor_feedback), '')
+  WHERE id = _order_id;
+
+  INSERT INTO public.assignments (order_id, user_id, action)
+  VALUES (_order_id, auth.uid(), 'completed');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+
+  UPDATE public.orders SET status = 'available' WHERE id = _order_id;
+
+  INSERT INTO public.assignments (order_id, user_id, action)
+  VALUES (_order_id, auth.uid(), 'released');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fail_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+
+  UPDATE public.orders SET status = 'failed' WHERE id = _order_id;
+
+  INSERT INTO public.assignments (order_id, user_id, action)
+  VALUES (_order_id, auth.uid(), 'failed');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_order_for_action(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_assigned_order(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.take_order(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complete_order(UUID, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_order(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.fail_order(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.take_order(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_order(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_order(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_order(UUID) TO authenticated;
+
+-- Editors now go through the functions above; direct writes would bypass the audit log
+DROP POLICY IF EXISTS "Editors can take available orders" ON public.orders;
+
+DROP POLICY IF EXISTS "System can insert assignments" ON public.assignments;
+CREATE POLICY "Admins can insert assignments"
+  ON public.assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,186 @@
+-- Every status / assignee change on an order is written to public.assignments by a trigger,
+-- with the before and after values and an optional reason. The order RPCs pass the reason
+-- through the transaction-local setting app.transition_reason.
+ALTER TABLE public.assignments
+  ADD COLUMN IF NOT EXISTS from_status TEXT,
+  ADD COLUMN IF NOT EXISTS to_status TEXT,
+  ADD COLUMN IF NOT EXISTS from_taken_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS to_taken_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- NULL when the change was made by the system (sync, scheduled jobs)
+ALTER TABLE public.assignments ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.assignments DROP CONSTRAINT IF EXISTS assignments_action_check;
+ALTER TABLE public.assignments ADD CONSTRAINT assignments_action_check
+  CHECK (action IN (
+    'taken', 'released', 'reassigned', 'submitted', 'returned',
+    'completed', 'failed', 'cancelled', 'reopened'
+  ));
+
+CREATE INDEX IF NOT EXISTS assignments_order_id_timestamp_idx ON public.assignments (order_id, timestamp);
+
+-- Backfill the before/after columns for rows written by the old client-side inserts
+UPDATE public.assignments
+SET
+  from_status = CASE action WHEN 'taken' THEN 'available' ELSE 'taken' END,
+  to_status = CASE action WHEN 'released' THEN 'available' ELSE action END,
+  from_taken_by = CASE WHEN action = 'taken' THEN NULL ELSE user_id END,
+  to_taken_by = CASE WHEN action IN ('taken', 'completed', 'failed') THEN user_id END
+WHERE to_status IS NULL;
+
+CREATE OR REPLACE FUNCTION public.assignment_action(_from TEXT, _to TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _from = _to THEN 'reassigned'
+    WHEN _to = 'taken' AND _from = 'in_review' THEN 'returned'
+    WHEN _to = 'taken' THEN 'taken'
+    WHEN _to = 'available' AND _from IN ('failed', 'cancelled') THEN 'reopened'
+    WHEN _to = 'available' THEN 'released'
+    WHEN _to = 'in_review' THEN 'submitted'
+    ELSE _to
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_order_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.taken_by IS NOT DISTINCT FROM OLD.taken_by THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.assignments (
+    order_id, user_id, action, from_status, to_status, from_taken_by, to_taken_by, reason
+  )
+  VALUES (
+    NEW.id,
+    auth.uid(),
+    public.assignment_action(OLD.status, NEW.status),
+    OLD.status,
+    NEW.status,
+    OLD.taken_by,
+    NEW.taken_by,
+    nullif(trim(current_setting('app.transition_reason', true)), '')
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_order_transition
+  AFTER UPDATE OF status, taken_by ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.log_order_transition();
+
+-- The trigger is now the only writer
+DROP POLICY IF EXISTS "Admins can insert assignments" ON public.assignments;
+
+-- Set the reason for the transitions made in the current transaction
+CREATE OR REPLACE FUNCTION public.set_transition_reason(_reason TEXT)
+RETURNS VOID
+LANGUAGE SQL
+AS $$
+  SELECT set_config('app.transition_reason', coalesce(_reason, ''), true);
+$$;
+
+-- Order RPCs: the audit row comes from the trigger; leave and fail accept a reason
+CREATE OR REPLACE FUNCTION public.take_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_order_for_action(_order_id);
+BEGIN
+  IF o.status IN ('taken', 'in_review') THEN
+    RAISE EXCEPTION 'already_taken'
+      USING DETAIL = CASE WHEN o.taken_by = auth.uid()
+        THEN 'You already have this order'
+        ELSE 'This order has already been taken by someone else'
+      END;
+  END IF;
+  IF o.status <> 'available' THEN
+    RAISE EXCEPTION 'not_available' USING DETAIL = format('This order is %s', o.status);
+  END IF;
+
+  PERFORM public.set_transition_reason(NULL);
+  UPDATE public.orders
+  SET status = 'taken', taken_by = auth.uid(), taken_at = NOW()
+  WHERE id = _order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_order(
+  _order_id UUID,
+  _deliverable_link TEXT DEFAULT NULL,
+  _actual_amount NUMERIC DEFAULT NULL,
+  _editor_feedback TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+
+  IF _actual_amount IS NOT NULL AND _actual_amount < 0 THEN
+    RAISE EXCEPTION 'invalid_amount' USING DETAIL = 'The actual amount cannot be negative';
+  END IF;
+
+  PERFORM public.set_transition_reason(NULL);
+  UPDATE public.orders
+  SET
+    status = 'completed',
+    completed_at = NOW(),
+    deliverable_link = nullif(trim(_deliverable_link), ''),
+    actual_amount = _actual_amount,
+    editor_feedback = nullif(trim(_editor_feedback), '')
+  WHERE id = _order_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.release_order(UUID);
+DROP FUNCTION IF EXISTS public.fail_order(UUID);
+
+CREATE OR REPLACE FUNCTION public.release_order(_order_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+
+  PERFORM public.set_transition_reason(_reason);
+  UPDATE public.orders SET status = 'available' WHERE id = _order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fail_order(_order_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+
+  PERFORM public.set_transition_reason(_reason);
+  UPDATE public.orders SET status = 'failed' WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_order(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.fail_order(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.release_order(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_order(UUID, TEXT) TO authenticated;
+
+-- Live timeline in the admin Inspect dialog
+ALTER PUBLICATION supabase_realtime ADD TABLE public.assignments;
@@ -0,0 +1,94 @@
+-- Cap on how many orders an editor can have in progress at once. Global default in
+-- admin_settings, optional per-editor override in editor_settings (kept off profiles because
+-- editors can update their own profile row).
+ALTER TABLE public.admin_settings
+  ADD COLUMN IF NOT EXISTS max_active_orders_default INTEGER NOT NULL DEFAULT 3
+    CHECK (max_active_orders_default BETWEEN 1 AND 100);
+
+CREATE TABLE public.editor_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_active_orders INTEGER CHECK (max_active_orders BETWEEN 0 AND 100),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.editor_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors can view own settings"
+  ON public.editor_settings FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage editor settings"
+  ON public.editor_settings FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_editor_settings_updated_at
+  BEFORE UPDATE ON public.editor_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.editor_order_limit(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT max_active_orders FROM public.editor_settings WHERE user_id = _user_id),
+    (SELECT max_active_orders_default FROM public.admin_settings LIMIT 1),
+    3
+  )
+$$;
+
+-- Orders that occupy one of the editor's slots
+CREATE OR REPLACE FUNCTION public.editor_active_order_count(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER FROM public.orders WHERE taken_by = _user_id AND status = 'taken'
+$$;
+
+CREATE OR REPLACE FUNCTION public.take_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_order_for_action(_order_id);
+  active INTEGER;
+  cap INTEGER;
+BEGIN
+  IF o.status IN ('taken', 'in_review') THEN
+    RAISE EXCEPTION 'already_taken'
+      USING DETAIL = CASE WHEN o.taken_by = auth.uid()
+        THEN 'You already have this order'
+        ELSE 'This order has already been taken by someone else'
+      END;
+  END IF;
+  IF o.status <> 'available' THEN
+    RAISE EXCEPTION 'not_available' USING DETAIL = format('This order is %s', o.status);
+  END IF;
+
+  -- Serialize concurrent takes by the same editor so two requests cannot both fit in the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('take_order:' || auth.uid()::text));
+  active := public.editor_active_order_count(auth.uid());
+  cap := public.editor_order_limit(auth.uid());
+  IF active >= cap THEN
+    RAISE EXCEPTION 'limit_reached'
+      USING DETAIL = format('You already have %s of %s active orders. Finish or leave one first', active, cap);
+  END IF;
+
+  PERFORM public.set_transition_reason(NULL);
+  UPDATE public.orders
+  SET status = 'taken', taken_by = auth.uid(), taken_at = NOW()
+  WHERE id = _order_id;
+END;
+$$;
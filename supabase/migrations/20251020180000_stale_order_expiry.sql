@@ -0,0 +1,111 @@
+-- Warn editors about taken orders with no activity, then release them after a grace period.
+-- The decision logic lives in supabase/functions/_shared/stale-orders.ts; the
+-- expire-stale-orders edge function runs it hourly through pg_cron.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS stale_warned_at TIMESTAMPTZ;
+
+UPDATE public.orders SET last_activity_at = coalesce(taken_at, updated_at) WHERE status = 'taken';
+
+ALTER TABLE public.admin_settings
+  ADD COLUMN IF NOT EXISTS stale_expiry_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS stale_warning_hours INTEGER NOT NULL DEFAULT 48
+    CHECK (stale_warning_hours BETWEEN 1 AND 720),
+  ADD COLUMN IF NOT EXISTS stale_grace_hours INTEGER NOT NULL DEFAULT 24
+    CHECK (stale_grace_hours BETWEEN 1 AND 720);
+
+-- Taking or re-assigning an order starts a fresh activity window
+CREATE OR REPLACE FUNCTION public.reset_order_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.taken_by IS DISTINCT FROM OLD.taken_by THEN
+    NEW.last_activity_at := CASE WHEN NEW.status = 'taken' THEN NOW() END;
+    NEW.stale_warned_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_order_activity
+  BEFORE UPDATE OF status, taken_by ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.reset_order_activity();
+
+-- "Still working on it": the assignee clears the warning and restarts the window
+CREATE OR REPLACE FUNCTION public.touch_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+  UPDATE public.orders
+  SET last_activity_at = NOW(), stale_warned_at = NULL
+  WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.touch_order(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.touch_order(UUID) TO authenticated;
+
+-- Called by expire-stale-orders. Returns false when the order is no longer eligible
+-- (taken by someone else, responded to the warning, or already moved on).
+CREATE OR REPLACE FUNCTION public.release_stale_order(_order_id UUID, _taken_by UUID, _reason TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  SELECT * INTO o FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND
+    OR o.status <> 'taken'
+    OR o.taken_by IS DISTINCT FROM _taken_by
+    OR o.stale_warned_at IS NULL
+  THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.set_transition_reason(_reason);
+  UPDATE public.orders SET status = 'available' WHERE id = _order_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_stale_order(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_stale_order(UUID, UUID, TEXT) TO service_role;
+
+-- Scheduled calls to edge functions. Needs two Vault secrets, created once per project:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_name TEXT, _body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/' || _name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := _body
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-stale-orders',
+  '15 * * * *',
+  $$SELECT public.invoke_edge_function('expire-stale-orders')$$
+);
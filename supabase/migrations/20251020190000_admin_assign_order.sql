@@ -0,0 +1,38 @@
+-- Admins push an available order to an editor, or move a taken order to another editor.
+-- The log_order_transition trigger records it as 'taken' or 'reassigned' with the admin as actor;
+-- the editor is notified from the assignments realtime feed.
+CREATE OR REPLACE FUNCTION public.admin_assign_order(_order_id UUID, _editor_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can assign orders';
+  END IF;
+  IF NOT public.has_role(_editor_id, 'editor') OR public.has_role(_editor_id, 'admin') THEN
+    RAISE EXCEPTION 'not_editor' USING DETAIL = 'Orders can only be assigned to editors';
+  END IF;
+
+  o := public.lock_order_for_action(_order_id);
+  IF o.status NOT IN ('available', 'taken') THEN
+    RAISE EXCEPTION 'not_available'
+      USING DETAIL = format('A %s order cannot be assigned', o.status);
+  END IF;
+  IF o.taken_by = _editor_id THEN
+    RAISE EXCEPTION 'already_assigned' USING DETAIL = 'The order is already assigned to this editor';
+  END IF;
+
+  -- Admins may go over an editor's active order limit; the picker shows the current load
+  PERFORM public.set_transition_reason(_reason);
+  UPDATE public.orders
+  SET status = 'taken', taken_by = _editor_id, taken_at = NOW()
+  WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_assign_order(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_assign_order(UUID, UUID, TEXT) TO authenticated;
@@ -0,0 +1,173 @@
+-- Review step: editors submit finished work (taken -> in_review) and an admin approves it
+-- (in_review -> completed) or sends it back (in_review -> taken). Only approved orders are
+-- 'completed', so completed_at is the approval time and revenue is counted from there.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS review_comments TEXT;
+
+CREATE INDEX IF NOT EXISTS orders_in_review_idx ON public.orders (submitted_at) WHERE status = 'in_review';
+
+-- Approving and returning work are admin decisions, like cancelling and reopening
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- auth.uid() is NULL for the service role (edge functions, cron)
+  is_privileged BOOLEAN := auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin');
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'invalid_transition'
+      USING DETAIL = format('Cannot move an order from %s to %s', OLD.status, NEW.status);
+  END IF;
+
+  IF NOT is_privileged AND (
+    NEW.status IN ('cancelled', 'completed')
+    OR OLD.status IN ('failed', 'cancelled')
+    OR (OLD.status = 'in_review' AND NEW.status = 'taken')
+  ) THEN
+    RAISE EXCEPTION 'not_admin'
+      USING DETAIL = format('Only admins can move an order from %s to %s', OLD.status, NEW.status);
+  END IF;
+
+  CASE NEW.status
+    WHEN 'available' THEN
+      NEW.taken_by := NULL;
+      NEW.taken_at := NULL;
+      NEW.completed_at := NULL;
+      NEW.failed_at := NULL;
+      NEW.cancelled_at := NULL;
+      NEW.submitted_at := NULL;
+    WHEN 'taken' THEN
+      IF NEW.taken_by IS NULL THEN
+        RAISE EXCEPTION 'invalid_transition' USING DETAIL = 'A taken order needs an assignee';
+      END IF;
+      NEW.taken_at := coalesce(NEW.taken_at, NOW());
+    WHEN 'in_review' THEN
+      NEW.submitted_at := NOW();
+    WHEN 'completed' THEN
+      NEW.completed_at := coalesce(NEW.completed_at, NOW());
+    WHEN 'failed' THEN
+      NEW.failed_at := coalesce(NEW.failed_at, NOW());
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := coalesce(NEW.cancelled_at, NOW());
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Editors submit instead of completing
+DROP FUNCTION IF EXISTS public.complete_order(UUID, TEXT, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.submit_order(
+  _order_id UUID,
+  _deliverable_link TEXT DEFAULT NULL,
+  _actual_amount NUMERIC DEFAULT NULL,
+  _editor_feedback TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_assigned_order(_order_id);
+
+  IF _actual_amount IS NOT NULL AND _actual_amount < 0 THEN
+    RAISE EXCEPTION 'invalid_amount' USING DETAIL = 'The actual amount cannot be negative';
+  END IF;
+
+  PERFORM public.set_transition_reason(NULL);
+  UPDATE public.orders
+  SET
+    status = 'in_review',
+    deliverable_link = nullif(trim(_deliverable_link), ''),
+    actual_amount = _actual_amount,
+    editor_feedback = nullif(trim(_editor_feedback), ''),
+    review_comments = NULL
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Lock an order awaiting review for the calling admin
+CREATE OR REPLACE FUNCTION public.lock_order_for_review(_order_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can review orders';
+  END IF;
+  o := public.lock_order_for_action(_order_id);
+  IF o.status <> 'in_review' THEN
+    RAISE EXCEPTION 'not_in_review' USING DETAIL = format('This order is %s, not awaiting review', o.status);
+  END IF;
+  RETURN o;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_order(_order_id UUID, _comments TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_order_for_review(_order_id);
+
+  PERFORM public.set_transition_reason(_comments);
+  UPDATE public.orders
+  SET
+    status = 'completed',
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    review_comments = nullif(trim(_comments), '')
+  WHERE id = _order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_changes(_order_id UUID, _comments TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_order_for_review(_order_id);
+  IF nullif(trim(_comments), '') IS NULL THEN
+    RAISE EXCEPTION 'comments_required' USING DETAIL = 'Tell the editor what needs to change';
+  END IF;
+
+  PERFORM public.set_transition_reason(_comments);
+  UPDATE public.orders
+  SET
+    status = 'taken',
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    review_comments = trim(_comments)
+  WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_order_for_review(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_order(UUID, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.approve_order(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.request_changes(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_order(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_order(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_changes(UUID, TEXT) TO authenticated;
@@ -0,0 +1,239 @@
+-- Revision rounds: an admin reopens a completed order for the same editor with notes.
+-- Round 0 is the original delivery; each submission records its deliverable on the current
+-- round in order_rounds, so earlier links are kept when orders.deliverable_link moves on.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS revision_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.order_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL CHECK (round >= 0),
+  -- Why the round was opened (NULL for round 0)
+  notes TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requested_at TIMESTAMPTZ,
+  -- Latest submission in this round
+  deliverable_link TEXT,
+  actual_amount NUMERIC(10, 2),
+  editor_feedback TEXT,
+  submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (order_id, round)
+);
+
+ALTER TABLE public.order_rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Assigned editor and admins can view rounds"
+  ON public.order_rounds FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    OR EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = order_rounds.order_id AND o.taken_by = auth.uid()
+    )
+  );
+
+-- Existing deliveries become round 0
+INSERT INTO public.order_rounds (order_id, round, deliverable_link, actual_amount, editor_feedback, submitted_by, submitted_at)
+SELECT id, 0, deliverable_link, actual_amount, editor_feedback, taken_by, coalesce(submitted_at, completed_at)
+FROM public.orders
+WHERE status IN ('in_review', 'completed')
+ON CONFLICT (order_id, round) DO NOTHING;
+
+-- completed -> taken is a revision; only admins may do it
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR (_from, _to) IN (
+    VALUES
+      ('available', 'taken'),
+      ('available', 'cancelled'),
+      ('taken', 'available'),
+      ('taken', 'in_review'),
+      ('taken', 'completed'),
+      ('taken', 'failed'),
+      ('taken', 'cancelled'),
+      ('in_review', 'taken'),
+      ('in_review', 'completed'),
+      ('in_review', 'failed'),
+      ('in_review', 'cancelled'),
+      ('completed', 'taken'),
+      ('failed', 'available'),
+      ('cancelled', 'available')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- auth.uid() is NULL for the service role (edge functions, cron)
+  is_privileged BOOLEAN := auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin');
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'invalid_transition'
+      USING DETAIL = format('Cannot move an order from %s to %s', OLD.status, NEW.status);
+  END IF;
+
+  IF NOT is_privileged AND (
+    NEW.status IN ('cancelled', 'completed')
+    OR OLD.status IN ('failed', 'cancelled', 'completed')
+    OR (OLD.status = 'in_review' AND NEW.status = 'taken')
+  ) THEN
+    RAISE EXCEPTION 'not_admin'
+      USING DETAIL = format('Only admins can move an order from %s to %s', OLD.status, NEW.status);
+  END IF;
+
+  CASE NEW.status
+    WHEN 'available' THEN
+      NEW.taken_by := NULL;
+      NEW.taken_at := NULL;
+      NEW.completed_at := NULL;
+      NEW.failed_at := NULL;
+      NEW.cancelled_at := NULL;
+      NEW.submitted_at := NULL;
+    WHEN 'taken' THEN
+      IF NEW.taken_by IS NULL THEN
+        RAISE EXCEPTION 'invalid_transition' USING DETAIL = 'A taken order needs an assignee';
+      END IF;
+      NEW.taken_at := coalesce(NEW.taken_at, NOW());
+    WHEN 'in_review' THEN
+      NEW.submitted_at := NOW();
+    WHEN 'completed' THEN
+      -- A re-approved revision keeps its original completion date (and revenue month)
+      NEW.completed_at := coalesce(NEW.completed_at, NOW());
+    WHEN 'failed' THEN
+      NEW.failed_at := coalesce(NEW.failed_at, NOW());
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := coalesce(NEW.cancelled_at, NOW());
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.assignments DROP CONSTRAINT IF EXISTS assignments_action_check;
+ALTER TABLE public.assignments ADD CONSTRAINT assignments_action_check
+  CHECK (action IN (
+    'taken', 'released', 'reassigned', 'submitted', 'returned',
+    'completed', 'failed', 'cancelled', 'reopened', 'revision'
+  ));
+
+CREATE OR REPLACE FUNCTION public.assignment_action(_from TEXT, _to TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _from = _to THEN 'reassigned'
+    WHEN _to = 'taken' AND _from = 'in_review' THEN 'returned'
+    WHEN _to = 'taken' AND _from = 'completed' THEN 'revision'
+    WHEN _to = 'taken' THEN 'taken'
+    WHEN _to = 'available' AND _from IN ('failed', 'cancelled') THEN 'reopened'
+    WHEN _to = 'available' THEN 'released'
+    WHEN _to = 'in_review' THEN 'submitted'
+    ELSE _to
+  END
+$$;
+
+-- Record each submission on the current round
+CREATE OR REPLACE FUNCTION public.submit_order(
+  _order_id UUID,
+  _deliverable_link TEXT DEFAULT NULL,
+  _actual_amount NUMERIC DEFAULT NULL,
+  _editor_feedback TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_assigned_order(_order_id);
+BEGIN
+  IF _actual_amount IS NOT NULL AND _actual_amount < 0 THEN
+    RAISE EXCEPTION 'invalid_amount' USING DETAIL = 'The actual amount cannot be negative';
+  END IF;
+
+  PERFORM public.set_transition_reason(NULL);
+  UPDATE public.orders
+  SET
+    status = 'in_review',
+    deliverable_link = nullif(trim(_deliverable_link), ''),
+    actual_amount = _actual_amount,
+    editor_feedback = nullif(trim(_editor_feedback), ''),
+    review_comments = NULL
+  WHERE id = _order_id;
+
+  INSERT INTO public.order_rounds (
+    order_id, round, deliverable_link, actual_amount, editor_feedback, submitted_by, submitted_at
+  )
+  VALUES (
+    _order_id,
+    o.revision_count,
+    nullif(trim(_deliverable_link), ''),
+    _actual_amount,
+    nullif(trim(_editor_feedback), ''),
+    auth.uid(),
+    NOW()
+  )
+  ON CONFLICT (order_id, round) DO UPDATE SET
+    deliverable_link = EXCLUDED.deliverable_link,
+    actual_amount = EXCLUDED.actual_amount,
+    editor_feedback = EXCLUDED.editor_feedback,
+    submitted_by = EXCLUDED.submitted_by,
+    submitted_at = EXCLUDED.submitted_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_revision(_order_id UUID, _notes TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can open a revision';
+  END IF;
+  o := public.lock_order_for_action(_order_id);
+  IF o.status <> 'completed' THEN
+    RAISE EXCEPTION 'not_completed' USING DETAIL = format('This order is %s; only completed orders can be revised', o.status);
+  END IF;
+  IF o.taken_by IS NULL THEN
+    RAISE EXCEPTION 'invalid_transition' USING DETAIL = 'This order has no editor to send the revision to';
+  END IF;
+  IF nullif(trim(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'comments_required' USING DETAIL = 'Describe what the client wants changed';
+  END IF;
+
+  PERFORM public.set_transition_reason(_notes);
+  UPDATE public.orders
+  SET
+    status = 'taken',
+    revision_count = o.revision_count + 1,
+    review_comments = trim(_notes)
+  WHERE id = _order_id;
+
+  INSERT INTO public.order_rounds (order_id, round, notes, requested_by, requested_at)
+  VALUES (_order_id, o.revision_count + 1, trim(_notes), auth.uid(), NOW());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_revision(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_revision(UUID, TEXT) TO authenticated;
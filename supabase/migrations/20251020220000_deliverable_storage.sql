@@ -0,0 +1,164 @@
+-- Deliverable uploads: a private Storage bucket with one folder per order
+-- (<order_id>/<uuid>-<file name>). Each upload is recorded in orders.attachments as
+-- {path, name, size, content_type, version, round, uploaded_by, uploaded_at}; re-uploading
+-- a file with the same name adds the next version instead of replacing the old one.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('deliverables', 'deliverables', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+UPDATE public.orders SET attachments = '[]'::jsonb WHERE attachments IS NULL;
+ALTER TABLE public.orders
+  ALTER COLUMN attachments SET DEFAULT '[]'::jsonb,
+  ALTER COLUMN attachments SET NOT NULL;
+
+-- True when the user may read files under the order's folder
+CREATE OR REPLACE FUNCTION public.can_access_order_files(_user_id UUID, _folder TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE id::text = _folder AND taken_by = _user_id
+    )
+$$;
+
+CREATE POLICY "Assigned editor and admins can read deliverables"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'deliverables'
+    AND public.can_access_order_files(auth.uid(), (storage.foldername(name))[1])
+  );
+
+-- Only the editor working on the order uploads; files are never overwritten or deleted
+-- by editors so every version stays downloadable
+CREATE POLICY "Assigned editor can upload deliverables"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'deliverables'
+    AND EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE id::text = (storage.foldername(name))[1]
+        AND taken_by = auth.uid()
+        AND status = 'taken'
+    )
+  );
+
+CREATE POLICY "Admins can delete deliverables"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'deliverables' AND public.has_role(auth.uid(), 'admin'));
+
+-- Records an uploaded file on the order. Returns the new attachments entry.
+CREATE OR REPLACE FUNCTION public.add_order_attachment(
+  _order_id UUID,
+  _path TEXT,
+  _name TEXT,
+  _size BIGINT DEFAULT NULL,
+  _content_type TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_assigned_order(_order_id);
+  entry JSONB;
+BEGIN
+  IF _path IS NULL OR NOT starts_with(_path, _order_id::text || '/') THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The file was not uploaded to this order';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'deliverables' AND name = _path) THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The uploaded file could not be found';
+  END IF;
+  IF nullif(trim(_name), '') IS NULL THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The file needs a name';
+  END IF;
+
+  entry := jsonb_build_object(
+    'path', _path,
+    'name', trim(_name),
+    'size', _size,
+    'content_type', _content_type,
+    'version', 1 + (
+      SELECT count(*) FROM jsonb_array_elements(o.attachments) a WHERE a->>'name' = trim(_name)
+    ),
+    'round', o.revision_count,
+    'uploaded_by', auth.uid(),
+    'uploaded_at', NOW()
+  );
+
+  -- Uploading counts as activity for the stale-order check
+  UPDATE public.orders
+  SET
+    attachments = o.attachments || jsonb_build_array(entry),
+    last_activity_at = NOW(),
+    stale_warned_at = NULL
+  WHERE id = _order_id;
+
+  RETURN entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_order_attachment(UUID, TEXT, TEXT, BIGINT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_order_attachment(UUID, TEXT, TEXT, BIGINT, TEXT) TO authenticated;
+
+-- Deliverable links must be web URLs now that files go through uploads
+CREATE OR REPLACE FUNCTION public.submit_order(
+  _order_id UUID,
+  _deliverable_link TEXT DEFAULT NULL,
+  _actual_amount NUMERIC DEFAULT NULL,
+  _editor_feedback TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_assigned_order(_order_id);
+  link TEXT := nullif(trim(_deliverable_link), '');
+BEGIN
+  IF _actual_amount IS NOT NULL AND _actual_amount < 0 THEN
+    RAISE EXCEPTION 'invalid_amount' USING DETAIL = 'The actual amount cannot be negative';
+  END IF;
+  IF link IS NOT NULL AND link !~* '^https?://[^\s/]+\.[^\s]+$' THEN
+    RAISE EXCEPTION 'invalid_link' USING DETAIL = 'The deliverable link must be a full http(s) URL';
+  END IF;
+
+  PERFORM public.set_transition_reason(NULL);
+  UPDATE public.orders
+  SET
+    status = 'in_review',
+    deliverable_link = link,
+    actual_amount = _actual_amount,
+    editor_feedback = nullif(trim(_editor_feedback), ''),
+    review_comments = NULL
+  WHERE id = _order_id;
+
+  INSERT INTO public.order_rounds (
+    order_id, round, deliverable_link, actual_amount, editor_feedback, submitted_by, submitted_at
+  )
+  VALUES (
+    _order_id,
+    o.revision_count,
+    link,
+    _actual_amount,
+    nullif(trim(_editor_feedback), ''),
+    auth.uid(),
+    NOW()
+  )
+  ON CONFLICT (order_id, round) DO UPDATE SET
+    deliverable_link = EXCLUDED.deliverable_link,
+    actual_amount = EXCLUDED.actual_amount,
+    editor_feedback = EXCLUDED.editor_feedback,
+    submitted_by = EXCLUDED.submitted_by,
+    submitted_at = EXCLUDED.submitted_at;
+END;
+$$;
@@ -0,0 +1,210 @@
+-- Brief attachments: the client's reference material, stored next to deliverables in
+-- orders.attachments and told apart by `kind`:
+--   {kind: 'deliverable', path, name, size, content_type, version, round, uploaded_by, uploaded_at}
+--   {kind: 'brief', type: 'link', url, source: 'sheet'}         -- found in the sheet row by sync-sheet
+--   {kind: 'brief', type: 'file', path, name, size, content_type, uploaded_by, uploaded_at}
+-- Brief files live in the `briefs` bucket. Orders are readable by every signed-in user, and
+-- so are their briefs, so editors can preview them before taking an order.
+UPDATE public.orders
+SET attachments = (
+  SELECT coalesce(jsonb_agg(CASE WHEN a ? 'kind' THEN a ELSE a || '{"kind": "deliverable"}'::jsonb END), '[]'::jsonb)
+  FROM jsonb_array_elements(attachments) a
+)
+WHERE jsonb_array_length(attachments) > 0;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('briefs', 'briefs', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Signed-in users can read briefs"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'briefs');
+
+CREATE POLICY "Admins can upload briefs"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'briefs' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete briefs"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'briefs' AND public.has_role(auth.uid(), 'admin'));
+
+-- Same as before, with kind set and versions counted among deliverables only
+CREATE OR REPLACE FUNCTION public.add_order_attachment(
+  _order_id UUID,
+  _path TEXT,
+  _name TEXT,
+  _size BIGINT DEFAULT NULL,
+  _content_type TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders := public.lock_assigned_order(_order_id);
+  entry JSONB;
+BEGIN
+  IF _path IS NULL OR NOT starts_with(_path, _order_id::text || '/') THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The file was not uploaded to this order';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'deliverables' AND name = _path) THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The uploaded file could not be found';
+  END IF;
+  IF nullif(trim(_name), '') IS NULL THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The file needs a name';
+  END IF;
+
+  entry := jsonb_build_object(
+    'kind', 'deliverable',
+    'path', _path,
+    'name', trim(_name),
+    'size', _size,
+    'content_type', _content_type,
+    'version', 1 + (
+      SELECT count(*) FROM jsonb_array_elements(o.attachments) a
+      WHERE a->>'kind' = 'deliverable' AND a->>'name' = trim(_name)
+    ),
+    'round', o.revision_count,
+    'uploaded_by', auth.uid(),
+    'uploaded_at', NOW()
+  );
+
+  -- Uploading counts as activity for the stale-order check
+  UPDATE public.orders
+  SET
+    attachments = o.attachments || jsonb_build_array(entry),
+    last_activity_at = NOW(),
+    stale_warned_at = NULL
+  WHERE id = _order_id;
+
+  RETURN entry;
+END;
+$$;
+
+-- Admin only: record a file uploaded to the briefs bucket. Returns the new attachments entry.
+CREATE OR REPLACE FUNCTION public.add_brief_attachment(
+  _order_id UUID,
+  _path TEXT,
+  _name TEXT,
+  _size BIGINT DEFAULT NULL,
+  _content_type TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+  entry JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can add brief files';
+  END IF;
+  o := public.lock_order_for_action(_order_id);
+  IF _path IS NULL OR NOT starts_with(_path, _order_id::text || '/') THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The file was not uploaded to this order';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'briefs' AND name = _path) THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The uploaded file could not be found';
+  END IF;
+  IF nullif(trim(_name), '') IS NULL THEN
+    RAISE EXCEPTION 'invalid_attachment' USING DETAIL = 'The file needs a name';
+  END IF;
+
+  entry := jsonb_build_object(
+    'kind', 'brief',
+    'type', 'file',
+    'path', _path,
+    'name', trim(_name),
+    'size', _size,
+    'content_type', _content_type,
+    'uploaded_by', auth.uid(),
+    'uploaded_at', NOW()
+  );
+
+  UPDATE public.orders
+  SET attachments = o.attachments || jsonb_build_array(entry)
+  WHERE id = _order_id;
+
+  RETURN entry;
+END;
+$$;
+
+-- Admin only: drop a brief file from the order. The caller deletes the stored object.
+CREATE OR REPLACE FUNCTION public.remove_brief_attachment(_order_id UUID, _path TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can remove brief files';
+  END IF;
+  o := public.lock_order_for_action(_order_id);
+
+  UPDATE public.orders
+  SET attachments = (
+    SELECT coalesce(jsonb_agg(a), '[]'::jsonb)
+    FROM jsonb_array_elements(o.attachments) a
+    WHERE NOT (a->>'kind' = 'brief' AND a->>'type' = 'file' AND a->>'path' = _path)
+  )
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Service role only (sync-sheet): replace each order's sheet-sourced brief links with
+-- the ones found in its current row. _rows: [{order_id, links: [url, ...]}].
+-- Other attachments are kept, and orders whose links did not change are not touched.
+CREATE OR REPLACE FUNCTION public.set_sheet_brief_links(_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r JSONB;
+  current_attachments JSONB;
+  next_attachments JSONB;
+  changed INTEGER := 0;
+BEGIN
+  FOR r IN SELECT * FROM jsonb_array_elements(coalesce(_rows, '[]'::jsonb))
+  LOOP
+    SELECT attachments INTO current_attachments
+    FROM public.orders
+    WHERE id = (r->>'order_id')::uuid
+    FOR UPDATE;
+    CONTINUE WHEN NOT FOUND;
+
+    SELECT coalesce(jsonb_agg(a), '[]'::jsonb) INTO next_attachments
+    FROM jsonb_array_elements(current_attachments) a
+    WHERE NOT (a->>'kind' = 'brief' AND a->>'source' = 'sheet');
+
+    SELECT next_attachments || coalesce(
+      jsonb_agg(jsonb_build_object('kind', 'brief', 'type', 'link', 'url', u, 'source', 'sheet')),
+      '[]'::jsonb
+    ) INTO next_attachments
+    FROM jsonb_array_elements_text(coalesce(r->'links', '[]'::jsonb)) u;
+
+    IF next_attachments IS DISTINCT FROM current_attachments THEN
+      UPDATE public.orders SET attachments = next_attachments WHERE id = (r->>'order_id')::uuid;
+      changed := changed + 1;
+    END IF;
+  END LOOP;
+  RETURN changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_brief_attachment(UUID, TEXT, TEXT, BIGINT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_brief_attachment(UUID, TEXT, TEXT, BIGINT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.remove_brief_attachment(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_brief_attachment(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_sheet_brief_links(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_sheet_brief_links(JSONB) TO service_role;
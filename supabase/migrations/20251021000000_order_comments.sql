@@ -0,0 +1,120 @@
+-- Per-order comment threads between the assigned editor and admins.
+-- mentions holds the user ids @mentioned in the body; order_comment_reads tracks how far
+-- each user has read each thread so the UI can show unread counts.
+CREATE OR REPLACE FUNCTION public.can_access_order_thread(_user_id UUID, _order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (SELECT 1 FROM public.orders WHERE id = _order_id AND taken_by = _user_id)
+$$;
+
+CREATE TABLE public.order_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body TEXT NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 4000),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX order_comments_order_created_idx ON public.order_comments (order_id, created_at);
+
+ALTER TABLE public.order_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Assigned editor and admins can view comments"
+  ON public.order_comments FOR SELECT
+  TO authenticated
+  USING (public.can_access_order_thread(auth.uid(), order_id));
+
+CREATE POLICY "Assigned editor and admins can comment"
+  ON public.order_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (author_id = auth.uid() AND public.can_access_order_thread(auth.uid(), order_id));
+
+-- Mentions only notify people who can read the thread; anyone else is dropped
+CREATE OR REPLACE FUNCTION public.filter_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.body := trim(NEW.body);
+  NEW.mentions := coalesce(
+    (
+      SELECT array_agg(DISTINCT m)
+      FROM unnest(NEW.mentions) m
+      WHERE m IS DISTINCT FROM NEW.author_id AND public.can_access_order_thread(m, NEW.order_id)
+    ),
+    '{}'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER filter_comment_mentions
+  BEFORE INSERT ON public.order_comments
+  FOR EACH ROW EXECUTE FUNCTION public.filter_comment_mentions();
+
+CREATE TABLE public.order_comment_reads (
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (order_id, user_id)
+);
+
+ALTER TABLE public.order_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read markers"
+  ON public.order_comment_reads FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.mark_order_comments_read(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING DETAIL = 'Sign in to read comments';
+  END IF;
+  INSERT INTO public.order_comment_reads (order_id, user_id, last_read_at)
+  VALUES (_order_id, auth.uid(), NOW())
+  ON CONFLICT (order_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+-- Comments by others since the caller last read each thread, and whether any mention them
+CREATE OR REPLACE FUNCTION public.order_comment_unread_counts(_order_ids UUID[])
+RETURNS TABLE (order_id UUID, unread INTEGER, mentioned BOOLEAN)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.order_id,
+    count(*)::INTEGER AS unread,
+    bool_or(auth.uid() = ANY (c.mentions)) AS mentioned
+  FROM public.order_comments c
+  LEFT JOIN public.order_comment_reads r
+    ON r.order_id = c.order_id AND r.user_id = auth.uid()
+  WHERE c.order_id = ANY (_order_ids)
+    AND c.author_id IS DISTINCT FROM auth.uid()
+    AND c.created_at > coalesce(r.last_read_at, '-infinity'::timestamptz)
+    AND public.can_access_order_thread(auth.uid(), c.order_id)
+  GROUP BY c.order_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_order_comments_read(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_order_comments_read(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.order_comment_unread_counts(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.order_comment_unread_counts(UUID[]) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_comments;
@@ -0,0 +1,107 @@
+-- Email notifications to admin_settings.notification_emails, sent by the send-notification
+-- edge function. Order events are queued from a trigger through pg_net (the request goes out
+-- after the transaction commits); sync-sheet calls the function itself for new orders.
+CREATE TABLE public.email_templates (
+  event TEXT PRIMARY KEY CHECK (event IN (
+    'orders_synced', 'order_taken', 'order_completed', 'order_failed', 'revenue_threshold'
+  )),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- {{placeholder}} values are filled in by send-notification
+  subject TEXT NOT NULL CHECK (length(trim(subject)) > 0),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email templates"
+  ON public.email_templates FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update email templates"
+  ON public.email_templates FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.email_templates (event, subject, body) VALUES
+  ('orders_synced', '{{count}} new order(s) from the sheet',
+   E'{{count}} new order(s) were added by the last sheet sync:\n\n{{orders}}'),
+  ('order_taken', 'Order taken: {{client_name}}',
+   E'{{editor_name}} took the order for {{client_name}} (₹{{price}}).\n\n{{requirement}}'),
+  ('order_completed', 'Order completed: {{client_name}}',
+   E'The order for {{client_name}} by {{editor_name}} was approved.\n\nAmount: ₹{{amount}}\nDeliverable: {{deliverable_link}}'),
+  ('order_failed', 'Order failed: {{client_name}}',
+   E'{{editor_name}} marked the order for {{client_name}} as failed.\n\nReason: {{reason}}'),
+  ('revenue_threshold', 'Revenue goal reached for {{month}}',
+   E'Revenue for {{month}} is ₹{{revenue}}, past the ₹{{threshold}} goal.')
+ON CONFLICT (event) DO NOTHING;
+
+-- One row per email sent (or attempted). dedupe_key stops repeats such as the monthly
+-- revenue email being sent again on every later approval.
+CREATE TABLE public.email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event TEXT NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  dedupe_key TEXT UNIQUE,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  subject TEXT,
+  transport TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX email_deliveries_created_at_idx ON public.email_deliveries (created_at DESC);
+
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email deliveries"
+  ON public.email_deliveries FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- taken (from available), completed and failed. A notification that cannot be queued
+-- (e.g. Vault secrets missing) must never block the order change itself.
+CREATE OR REPLACE FUNCTION public.notify_order_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event TEXT := CASE public.assignment_action(OLD.status, NEW.status)
+    WHEN 'taken' THEN 'order_taken'
+    WHEN 'completed' THEN 'order_completed'
+    WHEN 'failed' THEN 'order_failed'
+  END;
+BEGIN
+  IF event IS NULL OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    PERFORM public.invoke_edge_function(
+      'send-notification',
+      jsonb_build_object(
+        'event', event,
+        'order_id', NEW.id,
+        'reason', nullif(current_setting('app.transition_reason', true), '')
+      )
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not queue % notification for order %: %', event, NEW.id, SQLERRM;
+  END;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_order_event
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.notify_order_event();
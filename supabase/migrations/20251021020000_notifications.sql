@@ -0,0 +1,213 @@
+-- In-app notifications, written by triggers and shown by the bell in the dashboard header.
+-- notification_preferences holds opt-outs: no row means the type is on.
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'orders_available', 'order_assigned', 'order_unassigned', 'revision_requested',
+    'order_auto_released', 'comment_mention'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX notifications_user_created_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  PRIMARY KEY (user_id, type)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own notification preferences"
+  ON public.notification_preferences FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.notification_enabled(_user_id UUID, _type TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.notification_preferences
+    WHERE user_id = _user_id AND type = _type AND NOT enabled
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_user(
+  _user_id UUID,
+  _type TEXT,
+  _title TEXT,
+  _body TEXT DEFAULT NULL,
+  _order_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL OR NOT public.notification_enabled(_user_id, _type) THEN
+    RETURN;
+  END IF;
+  INSERT INTO public.notifications (user_id, type, title, body, order_id)
+  VALUES (_user_id, _type, _title, _body, _order_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Assignment changes made by someone else, revisions and change requests, and stale-order
+-- releases (made by the service role, so auth.uid() is NULL)
+CREATE OR REPLACE FUNCTION public.notify_order_users()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor UUID := auth.uid();
+  action TEXT := public.assignment_action(OLD.status, NEW.status);
+  reason TEXT := nullif(trim(current_setting('app.transition_reason', true)), '');
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.taken_by IS NOT DISTINCT FROM OLD.taken_by THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.taken_by IS NOT NULL AND NEW.taken_by IS DISTINCT FROM OLD.taken_by AND NEW.taken_by IS DISTINCT FROM actor THEN
+    PERFORM public.notify_user(NEW.taken_by, 'order_assigned', 'You were assigned an order', NEW.client_name || coalesce(': ' || reason, ''), NEW.id);
+  END IF;
+
+  IF OLD.taken_by IS NOT NULL AND NEW.taken_by IS NOT NULL AND OLD.taken_by <> NEW.taken_by AND OLD.taken_by IS DISTINCT FROM actor THEN
+    PERFORM public.notify_user(OLD.taken_by, 'order_unassigned', 'An order was reassigned away from you', NEW.client_name || coalesce(': ' || reason, ''), NEW.id);
+  END IF;
+
+  IF action = 'revision' THEN
+    PERFORM public.notify_user(NEW.taken_by, 'revision_requested', 'Revision requested: ' || NEW.client_name, reason, NEW.id);
+  ELSIF action = 'returned' THEN
+    PERFORM public.notify_user(NEW.taken_by, 'revision_requested', 'Changes requested: ' || NEW.client_name, reason, NEW.id);
+  ELSIF action = 'released' AND actor IS NULL THEN
+    PERFORM public.notify_user(OLD.taken_by, 'order_auto_released', 'Order released after inactivity: ' || NEW.client_name, reason, NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_order_users
+  AFTER UPDATE OF status, taken_by ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.notify_order_users();
+
+-- One notification per editor per insert statement, so a sync of many rows is one message
+CREATE OR REPLACE FUNCTION public.notify_orders_available()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  n INTEGER;
+  names TEXT;
+BEGIN
+  SELECT count(*) INTO n FROM new_orders WHERE status = 'available';
+  IF n = 0 THEN
+    RETURN NULL;
+  END IF;
+  SELECT string_agg(client_name, ', ') INTO names
+  FROM (SELECT client_name FROM new_orders WHERE status = 'available' LIMIT 3) first_orders;
+
+  INSERT INTO public.notifications (user_id, type, title, body)
+  SELECT
+    ur.user_id,
+    'orders_available',
+    CASE WHEN n = 1 THEN 'New order available' ELSE n || ' new orders available' END,
+    names || CASE WHEN n > 3 THEN format(' and %s more', n - 3) ELSE '' END
+  FROM public.user_roles ur
+  WHERE ur.role = 'editor' AND public.notification_enabled(ur.user_id, 'orders_available');
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_orders_available
+  AFTER INSERT ON public.orders
+  REFERENCING NEW TABLE AS new_orders
+  FOR EACH STATEMENT EXECUTE FUNCTION public.notify_orders_available();
+
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author TEXT;
+  client TEXT;
+  m UUID;
+BEGIN
+  IF cardinality(NEW.mentions) = 0 THEN
+    RETURN NULL;
+  END IF;
+  SELECT coalesce(full_name, email) INTO author FROM public.profiles WHERE id = NEW.author_id;
+  SELECT client_name INTO client FROM public.orders WHERE id = NEW.order_id;
+  FOREACH m IN ARRAY NEW.mentions
+  LOOP
+    PERFORM public.notify_user(
+      m,
+      'comment_mention',
+      format('%s mentioned you on %s', coalesce(author, 'Someone'), coalesce(client, 'an order')),
+      left(NEW.body, 200),
+      NEW.order_id
+    );
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_mentions
+  AFTER INSERT ON public.order_comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_comment_mentions();
+
+-- Marks the given notifications read, or all of the caller's when _ids is NULL
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  n INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated' USING DETAIL = 'Sign in to read notifications';
+  END IF;
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (_ids IS NULL OR id = ANY (_ids));
+  GET DIAGNOSTICS n = ROW_COUNT;
+  RETURN n;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
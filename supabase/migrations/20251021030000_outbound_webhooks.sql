@@ -0,0 +1,218 @@
+-- Outbound webhooks for order lifecycle events. Triggers on orders queue one
+-- webhook_deliveries row per subscribed endpoint; the deliver-webhooks edge function signs
+-- each payload with admin_settings.webhook_secret, posts it, and retries failures with
+-- exponential backoff (see supabase/functions/_shared/webhooks.ts).
+CREATE TABLE public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  url TEXT NOT NULL CHECK (url ~* '^https?://\S+$'),
+  description TEXT,
+  events TEXT[] NOT NULL DEFAULT ARRAY['order.created', 'order.taken', 'order.completed', 'order.failed', 'order.released']
+    CHECK (
+      cardinality(events) > 0
+      AND events <@ ARRAY['order.created', 'order.taken', 'order.completed', 'order.failed', 'order.released']
+    ),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook endpoints"
+  ON public.webhook_endpoints FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per event per endpoint. `payload` is the event data as it was when the event
+-- happened, so retries and replays send exactly the same body.
+CREATE TABLE public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  response_status INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX webhook_deliveries_due_idx ON public.webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX webhook_deliveries_created_at_idx ON public.webhook_deliveries (created_at DESC);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook deliveries"
+  ON public.webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- created on insert; taken, completed, failed and released on status changes. Revisions,
+-- returns and reassignments are not lifecycle events and send nothing.
+CREATE OR REPLACE FUNCTION public.queue_order_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    event := 'order.created';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    event := CASE public.assignment_action(OLD.status, NEW.status)
+      WHEN 'taken' THEN 'order.taken'
+      WHEN 'completed' THEN 'order.completed'
+      WHEN 'failed' THEN 'order.failed'
+      WHEN 'released' THEN 'order.released'
+    END;
+  END IF;
+  IF event IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, event, order_id, payload)
+  SELECT
+    e.id,
+    event,
+    NEW.id,
+    jsonb_build_object(
+      'order', jsonb_build_object(
+        'id', NEW.id,
+        'client_name', NEW.client_name,
+        'requirement_text', NEW.requirement_text,
+        'price', NEW.price,
+        'actual_amount', NEW.actual_amount,
+        'due_date', NEW.due_date,
+        'status', NEW.status,
+        'taken_by', NEW.taken_by,
+        'taken_at', NEW.taken_at,
+        'completed_at', NEW.completed_at,
+        'failed_at', NEW.failed_at,
+        'deliverable_link', NEW.deliverable_link,
+        'created_at', NEW.created_at
+      ),
+      'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      'reason', nullif(trim(current_setting('app.transition_reason', true)), '')
+    )
+  FROM public.webhook_endpoints e
+  WHERE e.enabled AND event = ANY (e.events);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_order_webhooks_insert
+  AFTER INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.queue_order_webhooks();
+
+CREATE TRIGGER queue_order_webhooks_update
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.queue_order_webhooks();
+
+-- Starts delivery once per statement rather than once per row, so a sheet sync that adds
+-- many orders makes a single call. Rows queued by this transaction have created_at = NOW().
+CREATE OR REPLACE FUNCTION public.kick_webhook_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.webhook_deliveries WHERE status = 'pending' AND created_at = NOW()) THEN
+    BEGIN
+      PERFORM public.invoke_edge_function('deliver-webhooks');
+    EXCEPTION WHEN OTHERS THEN
+      -- The cron job below picks the deliveries up anyway
+      RAISE WARNING 'Could not start webhook delivery: %', SQLERRM;
+    END;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER kick_webhook_deliveries_insert
+  AFTER INSERT ON public.orders
+  FOR EACH STATEMENT EXECUTE FUNCTION public.kick_webhook_deliveries();
+
+CREATE TRIGGER kick_webhook_deliveries_update
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH STATEMENT EXECUTE FUNCTION public.kick_webhook_deliveries();
+
+-- Called by deliver-webhooks. Takes up to _limit due deliveries, counts the attempt, and
+-- pushes next_attempt_at out so a concurrent run does not send the same delivery; the
+-- function sets the real retry time (or the final status) when the attempt finishes.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.webhook_deliveries d
+  SET attempts = d.attempts + 1, next_attempt_at = NOW() + INTERVAL '5 minutes'
+  WHERE d.id IN (
+    SELECT id FROM public.webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) TO service_role;
+
+-- Sends a failed delivery again with its original payload and a fresh set of retries
+CREATE OR REPLACE FUNCTION public.replay_webhook_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  d public.webhook_deliveries;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can replay webhook deliveries';
+  END IF;
+
+  SELECT * INTO d FROM public.webhook_deliveries WHERE id = _delivery_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found' USING DETAIL = 'This delivery no longer exists';
+  END IF;
+  IF d.status <> 'failed' THEN
+    RAISE EXCEPTION 'invalid_transition' USING DETAIL = 'Only failed deliveries can be replayed';
+  END IF;
+
+  UPDATE public.webhook_deliveries
+  SET status = 'pending', attempts = 0, next_attempt_at = NOW(), response_status = NULL, error = NULL
+  WHERE id = _delivery_id;
+
+  BEGIN
+    PERFORM public.invoke_edge_function('deliver-webhooks');
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not start webhook delivery: %', SQLERRM;
+  END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replay_webhook_delivery(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.replay_webhook_delivery(UUID) TO authenticated;
+
+-- Retries only need a call when something is due
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$SELECT public.invoke_edge_function('deliver-webhooks')
+    WHERE EXISTS (SELECT 1 FROM public.webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= NOW())$$
+);
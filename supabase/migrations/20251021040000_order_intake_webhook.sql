@@ -0,0 +1,42 @@
+-- Push-based order intake through the intake-order edge function. Orders sent by Apps Script,
+-- website forms or automation tools are stored with source = 'webhook' and the sender's own
+-- ID in external_id, so sending the same order again updates it instead of adding a copy.
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+-- NULLs are distinct, so sheet orders (no external_id) are unaffected
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_source_external_id_key UNIQUE (source, external_id);
+
+-- webhook_secret now authenticates inbound orders, so only admins may read it. Everyone else
+-- keeps column-level access to the rest of the row; new admin_settings columns need adding here.
+REVOKE SELECT ON public.admin_settings FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  revenue_threshold_default,
+  max_active_orders_default,
+  stale_expiry_enabled,
+  stale_warning_hours,
+  stale_grace_hours,
+  notification_emails,
+  created_at,
+  updated_at,
+  updated_by
+) ON public.admin_settings TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_webhook_secret()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can view the webhook secret';
+  END IF;
+  RETURN (SELECT webhook_secret FROM public.admin_settings LIMIT 1);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_webhook_secret() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_webhook_secret() TO authenticated;
@@ -0,0 +1,57 @@
+-- Scheduled sheet sync plus a history of every sync. pg_cron calls sync-sheet every five
+-- minutes with {"trigger": "cron"}; the function only runs when auto sync is on and the last
+-- scheduled run is at least auto_sync_interval_minutes old. Manual refreshes and pushed
+-- orders (intake-order) are recorded here too.
+ALTER TABLE public.admin_settings
+  ADD COLUMN IF NOT EXISTS auto_sync_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS auto_sync_interval_minutes INTEGER NOT NULL DEFAULT 15
+    CHECK (auto_sync_interval_minutes BETWEEN 5 AND 1440);
+
+-- Column-level read access, see 20251021040000_order_intake_webhook.sql
+GRANT SELECT (auto_sync_enabled, auto_sync_interval_minutes) ON public.admin_settings TO authenticated;
+
+CREATE TABLE public.sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'cron', 'webhook')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  -- Set when the run was limited to one sheet source
+  source_id UUID REFERENCES public.sheet_sources(id) ON DELETE SET NULL,
+  triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  inserted INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  purged INTEGER NOT NULL DEFAULT 0,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  -- The failure, or for a run that succeeded, the sources that failed within it
+  error TEXT
+);
+
+CREATE INDEX sync_runs_started_at_idx ON public.sync_runs (started_at DESC);
+
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sync runs"
+  ON public.sync_runs FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- For the dashboard: editors cannot read sync_runs (errors name sheet sources)
+CREATE OR REPLACE FUNCTION public.last_sync_at()
+RETURNS TIMESTAMPTZ
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT max(finished_at) FROM public.sync_runs WHERE status = 'succeeded'
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.last_sync_at() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.last_sync_at() TO authenticated;
+
+SELECT cron.schedule(
+  'sync-sheet',
+  '*/5 * * * *',
+  $$SELECT public.invoke_edge_function('sync-sheet', '{"trigger": "cron"}'::jsonb)$$
+);
@@ -0,0 +1,56 @@
+-- Orders whose sheet row disappears are archived by sync-sheet instead of deleted, so their
+-- assignments history and revenue stay in analytics. Archived orders leave the editors' queue;
+-- admins can restore them, and a restored order is not archived again by later purges.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS archive_reason TEXT,
+  ADD COLUMN IF NOT EXISTS restored_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS orders_archived_at_idx
+  ON public.orders (archived_at DESC)
+  WHERE archived_at IS NOT NULL;
+
+-- take_order and admin_assign_order only check status; an archived order stays out of reach
+CREATE OR REPLACE FUNCTION public.prevent_taking_archived_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.archived_at IS NOT NULL AND OLD.status = 'available' AND NEW.status = 'taken' THEN
+    RAISE EXCEPTION 'not_available' USING DETAIL = 'This order has been archived';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_taking_archived_order
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_taking_archived_order();
+
+CREATE OR REPLACE FUNCTION public.restore_order(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can restore orders';
+  END IF;
+
+  o := public.lock_order_for_action(_order_id);
+  IF o.archived_at IS NULL THEN
+    RAISE EXCEPTION 'invalid_transition' USING DETAIL = 'This order is not archived';
+  END IF;
+
+  UPDATE public.orders
+  SET archived_at = NULL, archive_reason = NULL, restored_at = NOW()
+  WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_order(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_order(UUID) TO authenticated;
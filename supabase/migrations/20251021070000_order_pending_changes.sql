@@ -0,0 +1,157 @@
+-- Sheet edits to orders an editor is working on (taken, in review, or completed) are held here
+-- instead of rewriting the brief underneath them. sync-sheet records each changed field through
+-- record_order_changes; an admin accepts (applies it to the order) or rejects each one.
+CREATE TABLE public.order_pending_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('client_name', 'requirement_text', 'price', 'due_date')),
+  -- Text forms of the order's value when the change was detected and of the sheet's value
+  old_value TEXT,
+  new_value TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+-- At most one open change per field; a newer sheet value replaces the pending one
+CREATE UNIQUE INDEX order_pending_changes_open_idx
+  ON public.order_pending_changes (order_id, field)
+  WHERE status = 'pending';
+
+ALTER TABLE public.order_pending_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and assignees can view pending changes"
+  ON public.order_pending_changes FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    OR EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id AND o.taken_by = auth.uid())
+  );
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'orders_available', 'order_assigned', 'order_unassigned', 'revision_requested',
+  'order_auto_released', 'comment_mention', 'order_brief_changed'
+));
+
+-- Called by sync-sheet with [{order_id, field, old_value, new_value}]. Returns how many changes
+-- are new or carry a new value; the editor and the admins hear about each affected order once.
+CREATE OR REPLACE FUNCTION public.record_order_changes(_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r RECORD;
+  o public.orders;
+  n INTEGER := 0;
+  changed UUID[] := '{}';
+  fields TEXT;
+BEGIN
+  FOR r IN
+    SELECT * FROM jsonb_to_recordset(_rows) AS x(order_id UUID, field TEXT, old_value TEXT, new_value TEXT)
+  LOOP
+    -- An admin already turned this exact value down
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.order_pending_changes
+      WHERE order_id = r.order_id
+        AND field = r.field
+        AND status = 'rejected'
+        AND new_value IS NOT DISTINCT FROM r.new_value
+    );
+
+    INSERT INTO public.order_pending_changes (order_id, field, old_value, new_value)
+    VALUES (r.order_id, r.field, r.old_value, r.new_value)
+    ON CONFLICT (order_id, field) WHERE status = 'pending'
+    DO UPDATE SET new_value = EXCLUDED.new_value, detected_at = NOW()
+    WHERE public.order_pending_changes.new_value IS DISTINCT FROM EXCLUDED.new_value;
+
+    IF FOUND THEN
+      n := n + 1;
+      IF NOT r.order_id = ANY (changed) THEN
+        changed := array_append(changed, r.order_id);
+      END IF;
+    END IF;
+  END LOOP;
+
+  FOR o IN SELECT * FROM public.orders WHERE id = ANY (changed)
+  LOOP
+    SELECT string_agg(replace(field, '_', ' '), ', ' ORDER BY field) INTO fields
+    FROM public.order_pending_changes
+    WHERE order_id = o.id AND status = 'pending';
+
+    PERFORM public.notify_user(
+      o.taken_by,
+      'order_brief_changed',
+      'The client''s sheet changed: ' || o.client_name,
+      format('Changed: %s. Your brief stays as it is until an admin reviews it.', fields),
+      o.id
+    );
+    PERFORM public.notify_user(ur.user_id, 'order_brief_changed', 'Sheet changes to review: ' || o.client_name, 'Changed: ' || fields, o.id)
+    FROM public.user_roles ur
+    WHERE ur.role = 'admin';
+  END LOOP;
+
+  RETURN n;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_order_changes(JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.resolve_order_change(_change_id UUID, _accept BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c public.order_pending_changes;
+  o public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can review sheet changes';
+  END IF;
+
+  SELECT * INTO c FROM public.order_pending_changes WHERE id = _change_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found' USING DETAIL = 'This change no longer exists';
+  END IF;
+  IF c.status <> 'pending' THEN
+    RAISE EXCEPTION 'invalid_transition' USING DETAIL = format('This change was already %s', c.status);
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.orders
+    SET
+      client_name = CASE WHEN c.field = 'client_name' THEN c.new_value ELSE client_name END,
+      requirement_text = CASE WHEN c.field = 'requirement_text' THEN c.new_value ELSE requirement_text END,
+      price = CASE WHEN c.field = 'price' THEN c.new_value::NUMERIC ELSE price END,
+      due_date = CASE WHEN c.field = 'due_date' THEN c.new_value::TIMESTAMPTZ ELSE due_date END,
+      updated_at = NOW()
+    WHERE id = c.order_id
+    RETURNING * INTO o;
+
+    PERFORM public.notify_user(
+      o.taken_by,
+      'order_brief_changed',
+      'Brief updated: ' || o.client_name,
+      format('The %s now matches the client''s sheet', replace(c.field, '_', ' ')),
+      o.id
+    );
+  END IF;
+
+  UPDATE public.order_pending_changes
+  SET
+    status = CASE WHEN _accept THEN 'accepted' ELSE 'rejected' END,
+    resolved_at = NOW(),
+    resolved_by = auth.uid()
+  WHERE id = _change_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_order_change(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_order_change(UUID, BOOLEAN) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_pending_changes;
@@ -0,0 +1,23 @@
+-- sync-sheet writes new and changed rows as batched upserts keyed by (source_id, sheet_row_id)
+-- and skips rows whose content_hash matches the sheet. The key includes source_id, not just
+-- source: every sheet's orders have source 'google_sheet', and two sheets can share a timestamp.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Rows sharing a timestamp in one sheet used to become separate orders. The oldest keeps the
+-- key; the others get a suffixed one, so the next purge archives them like any stale row.
+WITH ranked AS (
+  SELECT id, row_number() OVER (PARTITION BY source_id, sheet_row_id ORDER BY created_at, id) AS n
+  FROM public.orders
+  WHERE source_id IS NOT NULL AND sheet_row_id IS NOT NULL
+)
+UPDATE public.orders o
+SET sheet_row_id = o.sheet_row_id || '#' || r.n
+FROM ranked r
+WHERE r.id = o.id AND r.n > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_source_sheet_row_idx
+  ON public.orders (source_id, sheet_row_id);
+
+ALTER TABLE public.sync_runs
+  ADD COLUMN IF NOT EXISTS skipped INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,32 @@
+-- A reopened revision is back with the same editor (status 'taken', revision_count > 0), so the
+-- stale-order job must not release it to the pool. expire-stale-orders skips these orders when
+-- it picks candidates; the release re-checks it under the row lock.
+CREATE OR REPLACE FUNCTION public.release_stale_order(_order_id UUID, _taken_by UUID, _reason TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  o public.orders;
+BEGIN
+  SELECT * INTO o FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND
+    OR o.status <> 'taken'
+    OR o.taken_by IS DISTINCT FROM _taken_by
+    OR o.stale_warned_at IS NULL
+    OR o.revision_count > 0
+  THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.set_transition_reason(_reason);
+  UPDATE public.orders SET status = 'available' WHERE id = _order_id;
+  RETURN true;
+END;
+$$;
+
+-- Warnings already sent for revisions no longer lead anywhere
+UPDATE public.orders
+SET stale_warned_at = NULL
+WHERE status = 'taken' AND revision_count > 0 AND stale_warned_at IS NOT NULL;
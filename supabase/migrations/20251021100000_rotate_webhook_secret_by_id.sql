@@ -0,0 +1,25 @@
+-- rotate_webhook_secret updated admin_settings without a WHERE clause, which pg-safeupdate rejects
+-- for PostgREST sessions. Target the settings row by id, as the settings form does.
+CREATE OR REPLACE FUNCTION public.rotate_webhook_secret()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  secret TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  _id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_admin' USING DETAIL = 'Only admins can rotate the webhook secret';
+  END IF;
+
+  SELECT id INTO _id FROM public.admin_settings ORDER BY created_at LIMIT 1;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found' USING DETAIL = 'Save the admin settings before generating a webhook secret';
+  END IF;
+
+  UPDATE public.admin_settings SET webhook_secret = secret WHERE id = _id;
+  RETURN secret;
+END;
+$$;